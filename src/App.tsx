@@ -1,18 +1,35 @@
 import { useState, useEffect } from 'react'
-import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom'
+import { BrowserRouter as Router, Routes, Route, Navigate, matchPath } from 'react-router-dom'
 import toast, { Toaster } from 'react-hot-toast'
 import { blink } from './lib/blink'
+import { loadRolePermissions, type Permission } from './lib/permissions'
+import { recordSignup } from './lib/metrics'
+import { PermissionsContext } from './hooks/use-permissions'
 
 // Components
 import { Sidebar } from './components/layout/Sidebar'
 import { Header } from './components/layout/Header'
+import { GenerationQueueProvider } from './components/generation/GenerationQueueProvider'
+import { SettingsProvider } from './components/settings/SettingsProvider'
+import { MaintenanceGate } from './components/settings/MaintenanceGate'
+import { MaintenanceBanner } from './components/settings/MaintenanceBanner'
+import { AccessGate } from './components/access/AccessGate'
+import { AccountStatusGate } from './components/access/AccountStatusGate'
 
 // Pages
 import { ImageGenerator } from './pages/ImageGenerator'
 import { Gallery } from './pages/Gallery'
+import { Trash } from './pages/Trash'
 import { AdminDashboard } from './pages/AdminDashboard'
 import { UserManagement } from './pages/UserManagement'
 import { Analytics } from './pages/Analytics'
+import { Settings } from './pages/Settings'
+import { AuditLog } from './pages/AuditLog'
+import { Moderation } from './pages/Moderation'
+import { ContentPolicy } from './pages/ContentPolicy'
+import { Reports } from './pages/Reports'
+import { SharedImage } from './pages/SharedImage'
+import { Explore } from './pages/Explore'
 
 interface User {
   id: string
@@ -25,6 +42,9 @@ function App() {
   const [user, setUser] = useState<User | null>(null)
   const [loading, setLoading] = useState(true)
   const [sidebarOpen, setSidebarOpen] = useState(false)
+  // Tagged with the role they were loaded for, so a stale set is never used
+  const [permissions, setPermissions] = useState<{ role?: string; granted: Set<Permission> } | null>(null)
+  const role = user?.role
 
   useEffect(() => {
     const unsubscribe = blink.auth.onAuthStateChanged((state) => {
@@ -34,7 +54,27 @@ function App() {
     return unsubscribe
   }, [])
 
-  if (loading) {
+  // Counts the account in the sign-up metrics the first time it's seen
+  useEffect(() => {
+    if (user) recordSignup(user)
+  }, [user])
+
+  useEffect(() => {
+    loadRolePermissions(role)
+      .then(granted => setPermissions({ role, granted }))
+      .catch(error => {
+        console.error('Failed to load permissions:', error)
+        setPermissions({ role, granted: new Set() })
+      })
+  }, [role])
+
+  // Share pages are public, so they render outside the sign-in and access gates
+  const shareToken = matchPath('/s/:token', window.location.pathname)?.params.token
+  if (shareToken) {
+    return <SharedImage token={shareToken} viewerId={user?.id} />
+  }
+
+  if (loading || (user && (!permissions || permissions.role !== role))) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-indigo-50 via-white to-purple-50">
         <div className="text-center space-y-4">
@@ -73,54 +113,91 @@ function App() {
     )
   }
 
-  const isAdmin = user.role === 'admin'
+  // Always loaded by now; the loading screen covers signed-in users until then
+  const granted = permissions!.granted
+  const can = (permission: Permission) => granted.has(permission)
+  // Whoever can change the settings can check the site during maintenance,
+  // and whoever admits users is never held at the waiting list
+  const bypassMaintenance = can('editSettings')
 
   return (
-    <Router>
-      <div className="min-h-screen bg-gray-50">
-        <Sidebar 
-          user={user} 
-          isAdmin={isAdmin}
-          open={sidebarOpen} 
-          onClose={() => setSidebarOpen(false)} 
-        />
+    <PermissionsContext.Provider value={granted}>
+      <Router>
+        <SettingsProvider>
+          <MaintenanceGate exempt={bypassMaintenance}>
+            <AccountStatusGate userId={user.id}>
+              <AccessGate user={user} exempt={can('manageUsers')}>
+                <GenerationQueueProvider userId={user.id} bypassMaintenance={bypassMaintenance}>
+                  <div className="min-h-screen bg-gray-50">
+                    <Sidebar 
+                      user={user} 
+                      permissions={granted}
+                      open={sidebarOpen} 
+                      onClose={() => setSidebarOpen(false)} 
+                    />
         
-        <div className="lg:pl-64">
-          <Header 
-            user={user}
-            onMenuClick={() => setSidebarOpen(true)}
-          />
+                    <div className="lg:pl-64">
+                      <Header 
+                        user={user}
+                        onMenuClick={() => setSidebarOpen(true)}
+                      />
+                      {bypassMaintenance && <MaintenanceBanner />}
           
-          <main className="py-6">
-            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-              <Routes>
-                <Route path="/" element={<ImageGenerator />} />
-                <Route path="/gallery" element={<Gallery />} />
-                {isAdmin && (
-                  <>
-                    <Route path="/admin" element={<AdminDashboard />} />
-                    <Route path="/admin/users" element={<UserManagement />} />
-                    <Route path="/admin/analytics" element={<Analytics />} />
-                  </>
-                )}
-                <Route path="*" element={<Navigate to="/" replace />} />
-              </Routes>
-            </div>
-          </main>
-        </div>
+                      <main className="py-6">
+                        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+                          <Routes>
+                            <Route path="/" element={<ImageGenerator />} />
+                            <Route path="/gallery" element={<Gallery />} />
+                            <Route path="/gallery/trash" element={<Trash />} />
+                            <Route path="/explore" element={<Explore />} />
+                            {can('viewAnalytics') && (
+                              <>
+                                <Route path="/admin" element={<AdminDashboard />} />
+                                <Route path="/admin/analytics" element={<Analytics />} />
+                              </>
+                            )}
+                            {can('manageUsers') && (
+                              <Route path="/admin/users" element={<UserManagement />} />
+                            )}
+                            {can('editSettings') && (
+                              <Route path="/admin/settings" element={<Settings />} />
+                            )}
+                            {can('moderateContent') && (
+                              <Route path="/admin/moderation" element={<Moderation />} />
+                            )}
+                            {can('moderateContent') && (
+                              <Route path="/admin/policy" element={<ContentPolicy />} />
+                            )}
+                            {can('moderateContent') && (
+                              <Route path="/admin/reports" element={<Reports />} />
+                            )}
+                            {can('viewAuditLog') && (
+                              <Route path="/admin/audit" element={<AuditLog />} />
+                            )}
+                            <Route path="*" element={<Navigate to="/" replace />} />
+                          </Routes>
+                        </div>
+                      </main>
+                    </div>
         
-        <Toaster 
-          position="top-right"
-          toastOptions={{
-            duration: 4000,
-            style: {
-              background: '#363636',
-              color: '#fff',
-            },
-          }}
-        />
-      </div>
-    </Router>
+                    <Toaster 
+                      position="top-right"
+                      toastOptions={{
+                        duration: 4000,
+                        style: {
+                          background: '#363636',
+                          color: '#fff',
+                        },
+                      }}
+                    />
+                  </div>
+                </GenerationQueueProvider>
+              </AccessGate>
+            </AccountStatusGate>
+          </MaintenanceGate>
+        </SettingsProvider>
+      </Router>
+    </PermissionsContext.Provider>
   )
 }
 
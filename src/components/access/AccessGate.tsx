@@ -0,0 +1,178 @@
+import { useState, useEffect, useCallback, type ReactNode } from 'react'
+import { Clock, KeyRound, Loader2, UserPlus } from 'lucide-react'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { Textarea } from '../ui/textarea'
+import { Separator } from '../ui/separator'
+import { blink } from '../../lib/blink'
+import { useSettings } from '../../hooks/use-settings'
+import {
+  checkAccess,
+  redeemInviteCode,
+  requestAccess,
+  InviteCodeError,
+  type AccessStatus,
+  type AccessUser
+} from '../../lib/access'
+
+interface AccessGateProps {
+  user: AccessUser
+  // Skips the check, for those who can admit users themselves
+  exempt: boolean
+  children: ReactNode
+}
+
+// Lets users through once they have been admitted under the current
+// registration mode; everyone else gets the waiting-list screen, where they
+// can redeem an invite code or ask an admin for access.
+export function AccessGate({ user, exempt, children }: AccessGateProps) {
+  const { settings, loading: settingsLoading, error: settingsError, reload: reloadSettings } = useSettings()
+  const [status, setStatus] = useState<AccessStatus | null>(null)
+  const [failed, setFailed] = useState(false)
+  const [message, setMessage] = useState('')
+  const [inviteCode, setInviteCode] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [formError, setFormError] = useState<string | null>(null)
+
+  // The registration mode decides who gets a grant, so nothing is checked
+  // until the stored settings have loaded
+  const check = useCallback(async () => {
+    if (exempt || settingsLoading || settingsError) return
+    setFailed(false)
+    try {
+      setStatus(await checkAccess(user, settings))
+    } catch (error) {
+      console.error('Failed to check access:', error)
+      setFailed(true)
+    }
+  }, [user, settings, settingsLoading, settingsError, exempt])
+
+  useEffect(() => {
+    check()
+  }, [check])
+
+  if (exempt || status?.allowed) return <>{children}</>
+
+  const handleRequest = async () => {
+    setBusy(true)
+    setFormError(null)
+    try {
+      const request = await requestAccess(user, message)
+      setStatus({ allowed: false, request })
+    } catch (error) {
+      console.error('Failed to request access:', error)
+      setFormError('Failed to send your request. Please try again.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleRedeem = async () => {
+    if (!inviteCode.trim()) return
+    setBusy(true)
+    setFormError(null)
+    try {
+      await redeemInviteCode(user, inviteCode)
+      setStatus({ allowed: true })
+    } catch (error) {
+      if (!(error instanceof InviteCodeError)) console.error('Failed to redeem invite code:', error)
+      setFormError(error instanceof InviteCodeError ? error.message : 'Failed to redeem the invite code')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const request = status?.request ?? null
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-indigo-50 via-white to-purple-50">
+      <div className="space-y-6 w-full max-w-md mx-auto px-4">
+        <div className="text-center space-y-4">
+          <div className="w-20 h-20 bg-gradient-to-r from-indigo-500 to-purple-600 rounded-2xl flex items-center justify-center mx-auto">
+            <UserPlus className="w-10 h-10 text-white" />
+          </div>
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-indigo-600 to-purple-600 bg-clip-text text-transparent">
+            {settings.siteName}
+          </h1>
+          <p className="text-gray-600">
+            Signed in as {user.email}. New accounts need to be approved before they can use the site.
+          </p>
+        </div>
+
+        {!status && !failed && !settingsError ? (
+          <div className="flex justify-center">
+            <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+          </div>
+        ) : failed || settingsError ? (
+          <div className="text-center space-y-3">
+            <p className="text-sm text-gray-600">We couldn't check your access right now.</p>
+            <Button variant="outline" onClick={settingsError ? reloadSettings : check}>Try again</Button>
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl shadow-sm border p-6 space-y-5">
+            {request?.status === 'pending' ? (
+              <div className="flex items-start gap-3">
+                <Clock className="h-5 w-5 text-indigo-600 mt-0.5 shrink-0" />
+                <div>
+                  <p className="font-medium">You're on the waiting list</p>
+                  <p className="text-sm text-gray-600">
+                    Requested {new Date(request.createdAt).toLocaleDateString()}. An admin will review it soon.
+                  </p>
+                </div>
+              </div>
+            ) : request?.status === 'denied' ? (
+              <div>
+                <p className="font-medium">Your request was declined</p>
+                <p className="text-sm text-gray-600">You can still get in with an invite code.</p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                <p className="font-medium">Request access</p>
+                <Textarea
+                  value={message}
+                  onChange={(e) => setMessage(e.target.value)}
+                  placeholder="Anything the admins should know (optional)"
+                  maxLength={500}
+                  rows={3}
+                />
+                <Button className="w-full" onClick={handleRequest} disabled={busy}>
+                  Join the waiting list
+                </Button>
+              </div>
+            )}
+
+            <Separator />
+
+            <div className="space-y-3">
+              <p className="font-medium">Have an invite code?</p>
+              <div className="flex gap-2">
+                <Input
+                  value={inviteCode}
+                  onChange={(e) => setInviteCode(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleRedeem()}
+                  placeholder="ABCD2345"
+                  className="uppercase"
+                />
+                <Button variant="outline" onClick={handleRedeem} disabled={busy || !inviteCode.trim()}>
+                  <KeyRound className="h-4 w-4 mr-2" />
+                  Redeem
+                </Button>
+              </div>
+            </div>
+
+            {formError && <p className="text-sm text-destructive">{formError}</p>}
+          </div>
+        )}
+
+        <div className="text-center">
+          <button
+            onClick={() => blink.auth.logout()}
+            className="text-sm text-indigo-600 hover:text-indigo-700 font-medium"
+          >
+            Sign out
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,98 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { Button } from '../ui/button'
+import { Badge } from '../ui/badge'
+import { Check, Clock, X } from 'lucide-react'
+import { blink } from '../../lib/blink'
+import { listAccessRequests, reviewAccessRequest, type AccessRequest } from '../../lib/access'
+import toast from 'react-hot-toast'
+
+interface AccessRequestsCardProps {
+  // Called after a request is approved, so the user list can pick up the new member
+  onApproved?: () => void
+}
+
+export function AccessRequestsCard({ onApproved }: AccessRequestsCardProps) {
+  const [requests, setRequests] = useState<AccessRequest[]>([])
+  const [reviewingId, setReviewingId] = useState<string | null>(null)
+
+  const loadRequests = useCallback(async () => {
+    try {
+      setRequests(await listAccessRequests('pending'))
+    } catch (error) {
+      console.error('Failed to load access requests:', error)
+      toast.error('Failed to load access requests')
+    }
+  }, [])
+
+  useEffect(() => {
+    loadRequests()
+  }, [loadRequests])
+
+  const handleReview = async (request: AccessRequest, approve: boolean) => {
+    setReviewingId(request.id)
+    try {
+      const admin = await blink.auth.me()
+      await reviewAccessRequest(request, approve, admin.id)
+      setRequests(prev => prev.filter(r => r.id !== request.id))
+      toast.success(approve ? `Approved ${request.email}` : `Declined ${request.email}`)
+      if (approve) onApproved?.()
+    } catch (error) {
+      console.error('Failed to review access request:', error)
+      toast.error('Failed to update the request')
+    } finally {
+      setReviewingId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Clock className="h-4 w-4" />
+          <span>Waiting List</span>
+          {requests.length > 0 && <Badge variant="secondary">{requests.length}</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {requests.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No one is waiting for access</p>
+        ) : (
+          <div className="space-y-3">
+            {requests.map((request) => (
+              <div key={request.id} className="flex items-start justify-between gap-4 p-3 border rounded-lg">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{request.displayName || request.email}</p>
+                  {request.displayName && (
+                    <p className="text-sm text-muted-foreground truncate">{request.email}</p>
+                  )}
+                  {request.message && (
+                    <p className="text-sm text-muted-foreground mt-1 whitespace-pre-wrap">{request.message}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Requested {new Date(request.createdAt).toLocaleString()}
+                  </p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <Button size="sm" onClick={() => handleReview(request, true)} disabled={reviewingId === request.id}>
+                    <Check className="h-4 w-4 mr-1" />
+                    Approve
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleReview(request, false)}
+                    disabled={reviewingId === request.id}
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    Decline
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
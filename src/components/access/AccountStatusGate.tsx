@@ -0,0 +1,77 @@
+import { useState, useEffect, useCallback, type ReactNode } from 'react'
+import { Ban, UserX } from 'lucide-react'
+import { blink } from '../../lib/blink'
+import { getUserStatus, effectiveStatus, type UserStatusRecord } from '../../lib/user-status'
+
+interface AccountStatusGateProps {
+  userId: string
+  children: ReactNode
+}
+
+// Picks up a ban made while the user has the app open
+const REFRESH_INTERVAL_MS = 60 * 1000
+
+// Replaces the app with a notice for banned and deactivated accounts
+export function AccountStatusGate({ userId, children }: AccountStatusGateProps) {
+  const [record, setRecord] = useState<UserStatusRecord | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const load = useCallback(async () => {
+    try {
+      setRecord(await getUserStatus(userId))
+    } catch (error) {
+      console.error('Failed to load account status:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [userId])
+
+  useEffect(() => {
+    load()
+    const interval = setInterval(load, REFRESH_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [load])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-indigo-50 via-white to-purple-50">
+        <div className="w-16 h-16 border-4 border-indigo-200 border-t-indigo-600 rounded-full animate-spin"></div>
+      </div>
+    )
+  }
+
+  const status = effectiveStatus(record)
+  if (!record || status === 'active') return <>{children}</>
+
+  const banned = status === 'banned'
+  const Icon = banned ? Ban : UserX
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-indigo-50 via-white to-purple-50">
+      <div className="text-center space-y-6 max-w-md mx-auto px-4">
+        <div className="w-20 h-20 bg-gradient-to-r from-red-500 to-rose-600 rounded-2xl flex items-center justify-center mx-auto">
+          <Icon className="w-10 h-10 text-white" />
+        </div>
+        <div className="space-y-4">
+          <h1 className="text-3xl font-bold text-gray-900">
+            {banned ? 'Your account has been banned' : 'Your account has been deactivated'}
+          </h1>
+          {record.reason && (
+            <p className="text-gray-600 whitespace-pre-wrap">Reason: {record.reason}</p>
+          )}
+          <p className="text-sm text-gray-500">
+            {record.expiresAt
+              ? `This lasts until ${new Date(record.expiresAt).toLocaleString()}.`
+              : 'Contact an administrator if you think this is a mistake.'}
+          </p>
+        </div>
+        <button
+          onClick={() => blink.auth.logout()}
+          className="text-sm text-indigo-600 hover:text-indigo-700 font-medium"
+        >
+          Sign out
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,195 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { Badge } from '../ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '../ui/table'
+import { Copy, KeyRound, Plus } from 'lucide-react'
+import { blink } from '../../lib/blink'
+import {
+  createInviteCode,
+  listInviteCodes,
+  revokeInviteCode,
+  inviteCodeState,
+  type InviteCode
+} from '../../lib/access'
+import toast from 'react-hot-toast'
+
+export function InviteCodesCard() {
+  const [invites, setInvites] = useState<InviteCode[]>([])
+  const [note, setNote] = useState('')
+  const [maxUses, setMaxUses] = useState('1')
+  const [expiresInDays, setExpiresInDays] = useState('7')
+  const [creating, setCreating] = useState(false)
+
+  const loadInvites = useCallback(async () => {
+    try {
+      setInvites(await listInviteCodes())
+    } catch (error) {
+      console.error('Failed to load invite codes:', error)
+      toast.error('Failed to load invite codes')
+    }
+  }, [])
+
+  useEffect(() => {
+    loadInvites()
+  }, [loadInvites])
+
+  const copyCode = async (code: string) => {
+    try {
+      await navigator.clipboard.writeText(code)
+      toast.success('Invite code copied')
+    } catch {
+      toast.error('Failed to copy invite code')
+    }
+  }
+
+  const handleCreate = async () => {
+    const uses = parseInt(maxUses)
+    const days = expiresInDays.trim() === '' ? null : parseInt(expiresInDays)
+    if (isNaN(uses) || uses < 0 || (days !== null && (isNaN(days) || days < 1))) {
+      toast.error('Uses and expiry must be whole numbers')
+      return
+    }
+
+    setCreating(true)
+    try {
+      const admin = await blink.auth.me()
+      const invite = await createInviteCode(admin.id, { note, maxUses: uses, expiresInDays: days })
+      setInvites(prev => [invite, ...prev])
+      setNote('')
+      copyCode(invite.code)
+    } catch (error) {
+      console.error('Failed to create invite code:', error)
+      toast.error('Failed to create invite code')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const handleRevoke = async (invite: InviteCode) => {
+    try {
+      const revokedAt = await revokeInviteCode(invite)
+      setInvites(prev => prev.map(i => i.id === invite.id ? { ...i, revokedAt } : i))
+      toast.success(`Revoked ${invite.code}`)
+    } catch (error) {
+      console.error('Failed to revoke invite code:', error)
+      toast.error('Failed to revoke invite code')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <KeyRound className="h-4 w-4" />
+          <span>Invite Codes</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_120px_120px_auto] gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="inviteNote">Note</Label>
+            <Input
+              id="inviteNote"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Who is this for?"
+              maxLength={100}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="inviteUses">Uses</Label>
+            <Input
+              id="inviteUses"
+              type="number"
+              min={0}
+              value={maxUses}
+              onChange={(e) => setMaxUses(e.target.value)}
+              title="0 for unlimited"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="inviteExpiry">Expires (days)</Label>
+            <Input
+              id="inviteExpiry"
+              type="number"
+              min={1}
+              value={expiresInDays}
+              onChange={(e) => setExpiresInDays(e.target.value)}
+              placeholder="Never"
+            />
+          </div>
+          <Button onClick={handleCreate} disabled={creating}>
+            <Plus className="h-4 w-4 mr-2" />
+            Create code
+          </Button>
+        </div>
+
+        {invites.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No invite codes yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Note</TableHead>
+                <TableHead>Uses</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="w-[100px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {invites.map((invite) => {
+                const state = inviteCodeState(invite)
+                return (
+                  <TableRow key={invite.id}>
+                    <TableCell>
+                      <button
+                        type="button"
+                        onClick={() => copyCode(invite.code)}
+                        className="flex items-center gap-2 font-mono text-sm hover:text-primary"
+                        title="Copy code"
+                      >
+                        {invite.code}
+                        <Copy className="h-3 w-3" />
+                      </button>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{invite.note || '—'}</TableCell>
+                    <TableCell className="text-sm">
+                      {invite.uses} / {Number(invite.maxUses) > 0 ? invite.maxUses : '∞'}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {invite.expiresAt ? new Date(invite.expiresAt).toLocaleDateString() : 'Never'}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={state === 'active' ? 'default' : 'secondary'} className="capitalize">
+                        {state}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      {state === 'active' && (
+                        <Button size="sm" variant="ghost" onClick={() => handleRevoke(invite)}>
+                          Revoke
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
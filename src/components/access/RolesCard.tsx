@@ -0,0 +1,204 @@
+import { useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { Checkbox } from '../ui/checkbox'
+import { Badge } from '../ui/badge'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '../ui/alert-dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '../ui/table'
+import { Plus, Shield, Trash2 } from 'lucide-react'
+import { blink } from '../../lib/blink'
+import { usePermissions } from '../../hooks/use-permissions'
+import {
+  createRole,
+  updateRolePermissions,
+  deleteRole,
+  canGrantRole,
+  PERMISSIONS,
+  type Permission,
+  type RoleDefinition
+} from '../../lib/permissions'
+import toast from 'react-hot-toast'
+
+interface RolesCardProps {
+  roles: RoleDefinition[]
+  // Called after any change so the page can reload roles and users
+  onChange: () => void
+}
+
+// The permission matrix. Built-in roles are shown for reference but can't be
+// edited; custom roles can be created, adjusted and deleted. Editors can only
+// toggle permissions they hold themselves, and only delete roles they could
+// grant.
+export function RolesCard({ roles, onChange }: RolesCardProps) {
+  const [newRoleName, setNewRoleName] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [roleToDelete, setRoleToDelete] = useState<RoleDefinition | null>(null)
+  const { permissions: granted, can } = usePermissions()
+
+  const handleCreate = async () => {
+    const name = newRoleName.trim()
+    if (!name) return
+    if (roles.some(role => role.name.toLowerCase() === name.toLowerCase())) {
+      toast.error(`A role called "${name}" already exists`)
+      return
+    }
+
+    setSaving(true)
+    try {
+      const admin = await blink.auth.me()
+      await createRole(name, [], admin.id)
+      setNewRoleName('')
+      toast.success(`Created the ${name} role`)
+      onChange()
+    } catch (error) {
+      console.error('Failed to create role:', error)
+      toast.error('Failed to create role')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const togglePermission = async (role: RoleDefinition, permission: Permission) => {
+    const permissions = role.permissions.includes(permission)
+      ? role.permissions.filter(p => p !== permission)
+      : [...role.permissions, permission]
+
+    setSaving(true)
+    try {
+      await updateRolePermissions(role, permissions)
+      onChange()
+    } catch (error) {
+      console.error('Failed to update role:', error)
+      toast.error('Failed to update role')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (role: RoleDefinition) => {
+    try {
+      const reassigned = await deleteRole(role)
+      toast.success(reassigned > 0
+        ? `Deleted ${role.name}; ${reassigned} member${reassigned === 1 ? '' : 's'} moved to User`
+        : `Deleted ${role.name}`)
+      onChange()
+    } catch (error) {
+      console.error('Failed to delete role:', error)
+      toast.error('Failed to delete role')
+    } finally {
+      setRoleToDelete(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Shield className="h-4 w-4" />
+          <span>Roles & Permissions</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Role</TableHead>
+              {PERMISSIONS.map(permission => (
+                <TableHead key={permission.value} className="text-center" title={permission.description}>
+                  {permission.label}
+                </TableHead>
+              ))}
+              <TableHead className="w-[50px]"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {roles.map(role => (
+              <TableRow key={role.id}>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{role.name}</span>
+                    {role.builtIn && <Badge variant="outline" className="text-xs">Built-in</Badge>}
+                  </div>
+                </TableCell>
+                {PERMISSIONS.map(permission => (
+                  <TableCell key={permission.value} className="text-center">
+                    <Checkbox
+                      checked={role.permissions.includes(permission.value)}
+                      onCheckedChange={() => togglePermission(role, permission.value)}
+                      disabled={role.builtIn || saving || !can(permission.value) || !canGrantRole(granted, role)}
+                      aria-label={`${role.name}: ${permission.label}`}
+                    />
+                  </TableCell>
+                ))}
+                <TableCell>
+                  {!role.builtIn && canGrantRole(granted, role) && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setRoleToDelete(role)}
+                      title={`Delete ${role.name}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="flex gap-2">
+          <Input
+            value={newRoleName}
+            onChange={(e) => setNewRoleName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+            placeholder="New role name, e.g. Support"
+            maxLength={40}
+            className="max-w-xs"
+          />
+          <Button variant="outline" onClick={handleCreate} disabled={saving || !newRoleName.trim()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add role
+          </Button>
+        </div>
+      </CardContent>
+
+      <AlertDialog open={!!roleToDelete} onOpenChange={(open) => !open && setRoleToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete the {roleToDelete?.name} role?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Anyone with this role becomes a regular user and loses its permissions.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => roleToDelete && handleDelete(roleToDelete)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete role
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
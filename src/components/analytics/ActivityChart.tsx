@@ -0,0 +1,74 @@
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from 'recharts'
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig
+} from '../ui/chart'
+import { formatDay, type DailyStat } from '../../lib/metrics'
+
+const chartConfig = {
+  images: { label: 'Images', color: 'hsl(var(--chart-1))' },
+  activeUsers: { label: 'Active users', color: 'hsl(var(--chart-2))' }
+} satisfies ChartConfig
+
+interface ActivityChartProps {
+  stats: DailyStat[]
+  onSelectDay: (date: string) => void
+}
+
+// Daily images and active users across the whole range. Clicking a day opens
+// its breakdown.
+export function ActivityChart({ stats, onSelectDay }: ActivityChartProps) {
+  return (
+    <ChartContainer config={chartConfig} className="h-[260px] w-full aspect-auto">
+      <AreaChart
+        data={stats}
+        margin={{ left: -16, right: 8 }}
+        className="cursor-pointer"
+        onClick={state => {
+          if (state?.activeLabel) onSelectDay(state.activeLabel)
+        }}
+      >
+        <defs>
+          {Object.keys(chartConfig).map(key => (
+            <linearGradient key={key} id={`fill-${key}`} x1="0" y1="0" x2="0" y2="1">
+              <stop offset="5%" stopColor={`var(--color-${key})`} stopOpacity={0.6} />
+              <stop offset="95%" stopColor={`var(--color-${key})`} stopOpacity={0.05} />
+            </linearGradient>
+          ))}
+        </defs>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="date"
+          tickLine={false}
+          axisLine={false}
+          tickMargin={8}
+          minTickGap={24}
+          tickFormatter={date => formatDay(date)}
+        />
+        <YAxis tickLine={false} axisLine={false} allowDecimals={false} />
+        <ChartTooltip
+          content={<ChartTooltipContent indicator="line" labelFormatter={date => formatDay(date, { dateStyle: 'medium' })} />}
+        />
+        <Area
+          dataKey="images"
+          type="monotone"
+          stroke="var(--color-images)"
+          fill="url(#fill-images)"
+          strokeWidth={2}
+        />
+        <Area
+          dataKey="activeUsers"
+          type="monotone"
+          stroke="var(--color-activeUsers)"
+          fill="url(#fill-activeUsers)"
+          strokeWidth={2}
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+      </AreaChart>
+    </ChartContainer>
+  )
+}
@@ -0,0 +1,102 @@
+import { useMemo, useState } from 'react'
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts'
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig
+} from '../ui/chart'
+import { Tabs, TabsList, TabsTrigger } from '../ui/tabs'
+import { breakdownNames, formatDay, OTHER, type BreakdownKey, type DailyStat } from '../../lib/metrics'
+
+const BREAKDOWNS: Array<{ value: BreakdownKey; label: string }> = [
+  { value: 'sizes', label: 'Size' },
+  { value: 'qualities', label: 'Quality' },
+  { value: 'styles', label: 'Style' }
+]
+
+interface BreakdownChartProps {
+  stats: DailyStat[]
+  onSelectDay: (date: string) => void
+}
+
+// Images per day stacked by size, quality or style
+export function BreakdownChart({ stats, onSelectDay }: BreakdownChartProps) {
+  const [breakdown, setBreakdown] = useState<BreakdownKey>('sizes')
+
+  // Names can hold spaces and punctuation, so each gets a plain series key
+  // that is safe to use in the CSS color variables
+  const { config, data, seriesKeys } = useMemo(() => {
+    const names = breakdownNames(stats, breakdown)
+    const seriesKeys = names.map((_, index) => `series${index}`)
+    const config: ChartConfig = Object.fromEntries(names.map((name, index) => [
+      seriesKeys[index],
+      { label: name, color: `hsl(var(--chart-${index + 1}))` }
+    ]))
+
+    const data = stats.map(stat => {
+      const row: Record<string, string | number> = { date: stat.date }
+      seriesKeys.forEach(key => { row[key] = 0 })
+      Object.entries(stat[breakdown]).forEach(([name, count]) => {
+        const index = names.includes(name) ? names.indexOf(name) : names.indexOf(OTHER)
+        if (index >= 0) row[seriesKeys[index]] = Number(row[seriesKeys[index]]) + count
+      })
+      return row
+    })
+
+    return { config, data, seriesKeys }
+  }, [stats, breakdown])
+
+  return (
+    <div className="space-y-4">
+      <Tabs value={breakdown} onValueChange={value => setBreakdown(value as BreakdownKey)}>
+        <TabsList>
+          {BREAKDOWNS.map(option => (
+            <TabsTrigger key={option.value} value={option.value}>{option.label}</TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      {seriesKeys.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No images in this period</p>
+      ) : (
+        <ChartContainer config={config} className="h-[260px] w-full aspect-auto">
+          <BarChart
+            data={data}
+            margin={{ left: -16, right: 8 }}
+            className="cursor-pointer"
+            onClick={state => {
+              if (state?.activeLabel) onSelectDay(state.activeLabel)
+            }}
+          >
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey="date"
+              tickLine={false}
+              axisLine={false}
+              tickMargin={8}
+              minTickGap={24}
+              tickFormatter={date => formatDay(date)}
+            />
+            <YAxis tickLine={false} axisLine={false} allowDecimals={false} />
+            <ChartTooltip
+              content={<ChartTooltipContent labelFormatter={date => formatDay(date, { dateStyle: 'medium' })} />}
+            />
+            {seriesKeys.map((key, index) => (
+              <Bar
+                key={key}
+                dataKey={key}
+                stackId="breakdown"
+                fill={`var(--color-${key})`}
+                radius={index === seriesKeys.length - 1 ? [4, 4, 0, 0] : 0}
+              />
+            ))}
+            <ChartLegend content={<ChartLegendContent />} />
+          </BarChart>
+        </ChartContainer>
+      )}
+    </div>
+  )
+}
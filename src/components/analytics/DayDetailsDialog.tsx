@@ -0,0 +1,129 @@
+import { useEffect, useState } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../ui/dialog'
+import { Button } from '../ui/button'
+import { Badge } from '../ui/badge'
+import { ChevronLeft, ChevronRight } from 'lucide-react'
+import { formatDay, listTopPrompts, type DailyStat } from '../../lib/metrics'
+
+const BREAKDOWNS = [
+  { key: 'sizes', label: 'Sizes' },
+  { key: 'qualities', label: 'Qualities' },
+  { key: 'styles', label: 'Styles' }
+] as const
+
+interface DayDetailsDialogProps {
+  stats: DailyStat[]
+  // The day being shown, or null when closed
+  date: string | null
+  onDateChange: (date: string | null) => void
+}
+
+// Drill-down into a single day of the analytics charts, with arrows to step
+// through the neighbouring days of the range
+export function DayDetailsDialog({ stats, date, onDateChange }: DayDetailsDialogProps) {
+  const index = stats.findIndex(stat => stat.date === date)
+  const stat = index >= 0 ? stats[index] : null
+  // Prompts of the day being shown, or null while they load
+  const [prompts, setPrompts] = useState<Array<{ prompt: string; count: number }> | null>(null)
+
+  useEffect(() => {
+    if (!date) return
+    let cancelled = false
+    setPrompts(null)
+    listTopPrompts(date, date, 5)
+      .then(rows => {
+        if (!cancelled) setPrompts(rows)
+      })
+      .catch(error => {
+        console.error('Failed to load top prompts:', error)
+        if (!cancelled) setPrompts([])
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [date])
+
+  return (
+    <Dialog open={!!stat} onOpenChange={open => !open && onDateChange(null)}>
+      <DialogContent className="max-w-lg">
+        {stat && (
+          <>
+            <DialogHeader>
+              <div className="flex items-center justify-between pr-6">
+                <DialogTitle>{formatDay(stat.date, { dateStyle: 'full' })}</DialogTitle>
+                <div className="flex">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={index === 0}
+                    onClick={() => onDateChange(stats[index - 1].date)}
+                    title="Previous day"
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={index === stats.length - 1}
+                    onClick={() => onDateChange(stats[index + 1].date)}
+                    title="Next day"
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <DialogDescription>Activity recorded on this day (UTC)</DialogDescription>
+            </DialogHeader>
+
+            <div className="grid grid-cols-3 gap-3">
+              {[
+                { label: 'Images', value: stat.images },
+                { label: 'Active users', value: stat.activeUsers },
+                { label: 'New users', value: stat.newUsers }
+              ].map(item => (
+                <div key={item.label} className="rounded-lg border p-3">
+                  <p className="text-xs text-muted-foreground">{item.label}</p>
+                  <p className="text-2xl font-bold">{item.value}</p>
+                </div>
+              ))}
+            </div>
+
+            {BREAKDOWNS.map(breakdown => {
+              const counts = Object.entries(stat[breakdown.key]).sort(([, a], [, b]) => b - a)
+              if (counts.length === 0) return null
+
+              return (
+                <div key={breakdown.key} className="space-y-2">
+                  <p className="text-sm font-medium">{breakdown.label}</p>
+                  <div className="flex flex-wrap gap-2">
+                    {counts.map(([name, count]) => (
+                      <Badge key={name} variant="secondary">{name} · {count}</Badge>
+                    ))}
+                  </div>
+                </div>
+              )
+            })}
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Top prompts</p>
+              {stat.images === 0 ? (
+                <p className="text-sm text-muted-foreground">No images generated</p>
+              ) : !prompts ? (
+                <p className="text-sm text-muted-foreground">Loading…</p>
+              ) : (
+                <ol className="space-y-1 max-h-48 overflow-y-auto">
+                  {prompts.map(({ prompt, count }) => (
+                    <li key={prompt} className="flex items-center justify-between gap-4 text-sm">
+                      <span className="line-clamp-1">{prompt}</span>
+                      <span className="text-muted-foreground shrink-0">{count}</span>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,41 @@
+import { Bar, BarChart, LabelList, XAxis, YAxis } from 'recharts'
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '../ui/chart'
+
+const chartConfig = {
+  count: { label: 'Images', color: 'hsl(var(--chart-1))' }
+} satisfies ChartConfig
+
+interface TopPromptsChartProps {
+  prompts: Array<{ prompt: string; count: number }>
+}
+
+// Most used prompts as horizontal bars, with each prompt written over its bar
+export function TopPromptsChart({ prompts }: TopPromptsChartProps) {
+  if (prompts.length === 0) {
+    return <p className="text-sm text-muted-foreground">No prompts data available</p>
+  }
+
+  return (
+    <ChartContainer config={chartConfig} className="h-[360px] w-full aspect-auto">
+      <BarChart data={prompts} layout="vertical" margin={{ left: 0, right: 32 }}>
+        <YAxis dataKey="prompt" type="category" hide />
+        <XAxis dataKey="count" type="number" hide />
+        <ChartTooltip
+          cursor={false}
+          content={<ChartTooltipContent labelFormatter={prompt => <span className="line-clamp-2 max-w-64">{prompt}</span>} />}
+        />
+        <Bar dataKey="count" fill="var(--color-count)" fillOpacity={0.25} radius={4} maxBarSize={28}>
+          <LabelList
+            dataKey="prompt"
+            position="insideLeft"
+            offset={8}
+            className="fill-foreground"
+            fontSize={12}
+            formatter={(prompt: string) => prompt.length > 60 ? `${prompt.slice(0, 60)}…` : prompt}
+          />
+          <LabelList dataKey="count" position="right" offset={8} className="fill-foreground" fontSize={12} />
+        </Bar>
+      </BarChart>
+    </ChartContainer>
+  )
+}
@@ -0,0 +1,65 @@
+import { useMemo } from 'react'
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from 'recharts'
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '../ui/chart'
+import { cumulativeUsers, formatDay, type DailyStat } from '../../lib/metrics'
+
+const chartConfig = {
+  users: { label: 'Users', color: 'hsl(var(--chart-3))' },
+  newUsers: { label: 'New users', color: 'hsl(var(--chart-4))' }
+} satisfies ChartConfig
+
+interface UserGrowthChartProps {
+  stats: DailyStat[]
+  totalUsers: number
+  onSelectDay: (date: string) => void
+}
+
+// Registered users at the end of each day in the range
+export function UserGrowthChart({ stats, totalUsers, onSelectDay }: UserGrowthChartProps) {
+  const data = useMemo(() => cumulativeUsers(stats, totalUsers), [stats, totalUsers])
+
+  return (
+    <ChartContainer config={chartConfig} className="h-[260px] w-full aspect-auto">
+      <AreaChart
+        data={data}
+        margin={{ left: -16, right: 8 }}
+        className="cursor-pointer"
+        onClick={state => {
+          if (state?.activeLabel) onSelectDay(state.activeLabel)
+        }}
+      >
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="date"
+          tickLine={false}
+          axisLine={false}
+          tickMargin={8}
+          minTickGap={24}
+          tickFormatter={date => formatDay(date)}
+        />
+        <YAxis tickLine={false} axisLine={false} allowDecimals={false} domain={['dataMin', 'auto']} />
+        <YAxis yAxisId="newUsers" hide />
+        <ChartTooltip
+          content={<ChartTooltipContent indicator="line" labelFormatter={date => formatDay(date, { dateStyle: 'medium' })} />}
+        />
+        <Area
+          dataKey="users"
+          type="stepAfter"
+          stroke="var(--color-users)"
+          fill="var(--color-users)"
+          fillOpacity={0.2}
+          strokeWidth={2}
+        />
+        {/* Only shown in the tooltip, alongside the running total */}
+        <Area
+          dataKey="newUsers"
+          yAxisId="newUsers"
+          stroke="var(--color-newUsers)"
+          strokeOpacity={0}
+          fill="none"
+          activeDot={false}
+        />
+      </AreaChart>
+    </ChartContainer>
+  )
+}
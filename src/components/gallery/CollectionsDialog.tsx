@@ -0,0 +1,152 @@
+import { useState } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../ui/dialog'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { Check, FolderOpen, Pencil, Plus, Trash2, X } from 'lucide-react'
+import type { CollectionSummary } from '../../lib/collections'
+
+interface CollectionsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  collections: CollectionSummary[]
+  onCreate: (name: string) => Promise<unknown>
+  onRename: (collectionId: string, name: string) => Promise<void>
+  onDelete: (collectionId: string) => Promise<void>
+}
+
+export function CollectionsDialog({
+  open,
+  onOpenChange,
+  collections,
+  onCreate,
+  onRename,
+  onDelete
+}: CollectionsDialogProps) {
+  const [newName, setNewName] = useState('')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingName, setEditingName] = useState('')
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null)
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return
+    await onCreate(newName)
+    setNewName('')
+  }
+
+  const handleRename = async () => {
+    if (!editingId) return
+    await onRename(editingId, editingName)
+    setEditingId(null)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Collections</DialogTitle>
+          <DialogDescription>
+            Group your images into albums. Open a collection in the Gallery to reorder it or pick its cover.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Input
+            placeholder="New collection name"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+          />
+          <Button onClick={handleCreate} disabled={!newName.trim()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Create
+          </Button>
+        </div>
+
+        <div className="space-y-2 max-h-96 overflow-y-auto">
+          {collections.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No collections yet</p>
+          ) : (
+            collections.map((collection) => (
+              <div key={collection.id} className="flex items-center space-x-3 p-2 border rounded-lg">
+                <div className="h-12 w-12 rounded-md bg-muted overflow-hidden shrink-0 flex items-center justify-center">
+                  {collection.coverUrl ? (
+                    <img src={collection.coverUrl} alt={collection.name} className="h-full w-full object-cover" />
+                  ) : (
+                    <FolderOpen className="h-5 w-5 text-muted-foreground" />
+                  )}
+                </div>
+
+                {editingId === collection.id ? (
+                  <div className="flex flex-1 items-center gap-1">
+                    <Input
+                      value={editingName}
+                      onChange={(e) => setEditingName(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+                      className="h-8"
+                      autoFocus
+                    />
+                    <Button size="sm" variant="ghost" onClick={handleRename}>
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setEditingId(null)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{collection.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {collection.imageCount} image{collection.imageCount === 1 ? '' : 's'}
+                    </p>
+                  </div>
+                )}
+
+                {editingId !== collection.id && (
+                  confirmDeleteId === collection.id ? (
+                    <div className="flex items-center gap-1">
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={async () => {
+                          await onDelete(collection.id)
+                          setConfirmDeleteId(null)
+                        }}
+                      >
+                        Delete
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => setConfirmDeleteId(null)}>
+                        Cancel
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="flex items-center">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => {
+                          setEditingId(collection.id)
+                          setEditingName(collection.name)
+                        }}
+                        title="Rename"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setConfirmDeleteId(collection.id)}
+                        title="Delete"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,170 @@
+import type { ReactNode, MouseEvent } from 'react'
+import { Card, CardContent } from '../ui/card'
+import { Button } from '../ui/button'
+import { Badge } from '../ui/badge'
+import { Checkbox } from '../ui/checkbox'
+import { ImageAnnotationControls } from './ImageAnnotationControls'
+import { Download, Share2, Info, Wand2, EyeOff, Globe } from 'lucide-react'
+import type { GeneratedImage } from '../../lib/images'
+import { isHidden } from '../../lib/moderation'
+import { isPublished } from '../../lib/explore'
+import { cn } from '../../lib/utils'
+
+interface GalleryImageCardProps {
+  image: GeneratedImage
+  selectMode?: boolean
+  selected?: boolean
+  onSelect?: (image: GeneratedImage, event: MouseEvent) => void
+  onDownload: (image: GeneratedImage) => void
+  onShare: (image: GeneratedImage) => void
+  onTogglePublish?: (image: GeneratedImage) => void
+  onRemix: (image: GeneratedImage) => void
+  onDetails: (image: GeneratedImage) => void
+  onOpen?: (image: GeneratedImage) => void
+  onAnnotate?: (image: GeneratedImage) => void
+  extraActions?: ReactNode
+}
+
+export function GalleryImageCard({
+  image,
+  selectMode = false,
+  selected = false,
+  onSelect,
+  onDownload,
+  onShare,
+  onTogglePublish,
+  onRemix,
+  onDetails,
+  onOpen,
+  onAnnotate,
+  extraActions
+}: GalleryImageCardProps) {
+  const hidden = isHidden(image)
+  const published = isPublished(image)
+
+  return (
+    <Card className={cn('overflow-hidden', selected && 'ring-2 ring-primary')}>
+      <div
+        className="aspect-square relative group"
+        onClick={selectMode ? (event) => onSelect?.(image, event) : undefined}
+      >
+        <img
+          src={image.url}
+          alt={image.prompt}
+          className={cn('w-full h-full object-cover', hidden && 'opacity-60')}
+        />
+        {hidden && (
+          <Badge variant="destructive" className="absolute top-3 right-3 pointer-events-none">
+            <EyeOff className="h-3 w-3 mr-1" />
+            Hidden
+          </Badge>
+        )}
+        {selectMode ? (
+          <div className={cn('absolute inset-0 cursor-pointer transition-colors', selected ? 'bg-primary/20' : 'hover:bg-black/10')}>
+            <Checkbox
+              checked={selected}
+              className="absolute top-3 left-3 bg-white pointer-events-none"
+              aria-label="Select image"
+            />
+          </div>
+        ) : (
+          <div
+            className={cn(
+              'absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center space-x-2',
+              onOpen && 'cursor-zoom-in'
+            )}
+            onClick={(event) => event.target === event.currentTarget && onOpen?.(image)}
+          >
+            {onSelect && (
+              <button
+                type="button"
+                onClick={(event) => onSelect(image, event)}
+                className="absolute top-3 left-3"
+                title="Select"
+              >
+                <Checkbox checked={false} className="bg-white pointer-events-none" tabIndex={-1} aria-label="Select image" />
+              </button>
+            )}
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={() => onDownload(image)}
+            >
+              <Download className="h-4 w-4" />
+            </Button>
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={() => onShare(image)}
+              disabled={hidden}
+              title={hidden ? "Hidden images can't be shared" : 'Share'}
+            >
+              <Share2 className="h-4 w-4" />
+            </Button>
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={() => onRemix(image)}
+              title="Remix"
+            >
+              <Wand2 className="h-4 w-4" />
+            </Button>
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={() => onDetails(image)}
+            >
+              <Info className="h-4 w-4" />
+            </Button>
+            {extraActions}
+          </div>
+        )}
+      </div>
+      <CardContent className="p-4">
+        <p className="text-sm text-muted-foreground line-clamp-2 mb-2">
+          {image.prompt}
+        </p>
+        {hidden && (
+          <p className="text-xs text-destructive mb-2">
+            Hidden by a moderator{image.moderationReason ? `: ${image.moderationReason}` : ''}. Only you can see it.
+          </p>
+        )}
+        <div className="flex items-center justify-between">
+          <div className="flex space-x-1">
+            <Badge variant="secondary" className="text-xs">
+              {image.size}
+            </Badge>
+            <Badge variant="outline" className="text-xs">
+              {image.quality}
+            </Badge>
+            {published && !hidden && (
+              <Badge variant="default" className="text-xs">
+                Public
+              </Badge>
+            )}
+          </div>
+          <div className="flex items-center space-x-1">
+            <span className="text-xs text-muted-foreground">
+              {new Date(image.createdAt).toLocaleDateString()}
+            </span>
+            {onTogglePublish && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 w-7 p-0"
+                onClick={() => onTogglePublish(image)}
+                disabled={hidden && !published}
+                title={published ? 'Remove from Explore' : hidden ? "Hidden images can't be published" : 'Publish to Explore'}
+              >
+                <Globe className={cn('h-4 w-4', published ? 'text-primary' : 'text-muted-foreground')} />
+              </Button>
+            )}
+          </div>
+        </div>
+        {onAnnotate && (
+          <ImageAnnotationControls image={image} onChange={onAnnotate} className="mt-3" />
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,139 @@
+import { useState } from 'react'
+import { Button } from '../ui/button'
+import { Badge } from '../ui/badge'
+import { Input } from '../ui/input'
+import { Heart, Star, Plus, X } from 'lucide-react'
+import {
+  annotateImage,
+  isFavorite,
+  normalizeTag,
+  parseTags,
+  MAX_RATING,
+  MAX_TAG_LENGTH,
+  type GeneratedImage,
+  type ImageAnnotations
+} from '../../lib/images'
+import { cn } from '../../lib/utils'
+import toast from 'react-hot-toast'
+
+interface ImageAnnotationControlsProps {
+  image: GeneratedImage
+  onChange: (image: GeneratedImage) => void
+  className?: string
+}
+
+// Favorite, rating and tag editors for one image. Edits apply optimistically
+// and roll back if the save fails.
+export function ImageAnnotationControls({ image, onChange, className }: ImageAnnotationControlsProps) {
+  const [addingTag, setAddingTag] = useState(false)
+  const [tagDraft, setTagDraft] = useState('')
+  const favorite = isFavorite(image)
+  const rating = image.rating || 0
+  const tags = parseTags(image)
+
+  const save = async (changes: ImageAnnotations) => {
+    const optimistic = { ...image }
+    if (changes.favorite !== undefined) optimistic.favorite = changes.favorite ? 1 : 0
+    if (changes.rating !== undefined) optimistic.rating = changes.rating
+    if (changes.tags !== undefined) optimistic.tags = JSON.stringify(changes.tags.map(normalizeTag))
+    onChange(optimistic)
+
+    try {
+      onChange(await annotateImage(image, changes))
+    } catch (error) {
+      console.error('Failed to update image:', error)
+      toast.error('Failed to save changes')
+      onChange(image)
+    }
+  }
+
+  const addTag = () => {
+    const tag = normalizeTag(tagDraft)
+    setTagDraft('')
+    setAddingTag(false)
+    if (tag && !tags.includes(tag)) {
+      save({ tags: [...tags, tag] })
+    }
+  }
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center" role="radiogroup" aria-label="Rating">
+          {Array.from({ length: MAX_RATING }, (_, i) => i + 1).map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => save({ rating: value === rating ? 0 : value })}
+              className="p-0.5"
+              title={value === rating ? 'Clear rating' : `Rate ${value}`}
+              aria-checked={value === rating}
+              role="radio"
+            >
+              <Star
+                className={cn(
+                  'h-4 w-4',
+                  value <= rating ? 'fill-yellow-400 text-yellow-500' : 'text-muted-foreground'
+                )}
+              />
+            </button>
+          ))}
+        </div>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-7 w-7 p-0"
+          onClick={() => save({ favorite: !favorite })}
+          title={favorite ? 'Remove from favorites' : 'Add to favorites'}
+        >
+          <Heart className={cn('h-4 w-4', favorite && 'fill-red-500 text-red-500')} />
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1">
+        {tags.map((tag) => (
+          <Badge key={tag} variant="outline" className="text-xs pr-1">
+            {tag}
+            <button
+              type="button"
+              onClick={() => save({ tags: tags.filter(t => t !== tag) })}
+              className="ml-1 rounded-sm hover:text-destructive"
+              title={`Remove ${tag}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+        {addingTag ? (
+          <Input
+            value={tagDraft}
+            onChange={(e) => setTagDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === ',') {
+                e.preventDefault()
+                addTag()
+              } else if (e.key === 'Escape') {
+                setAddingTag(false)
+              }
+            }}
+            onBlur={addTag}
+            maxLength={MAX_TAG_LENGTH}
+            placeholder="tag"
+            className="h-6 w-24 text-xs px-2"
+            autoFocus
+          />
+        ) : (
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-6 px-2 text-xs text-muted-foreground"
+            onClick={() => setAddingTag(true)}
+          >
+            <Plus className="h-3 w-3 mr-1" />
+            Tag
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,131 @@
+import type { ReactNode } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '../ui/sheet'
+import { Button } from '../ui/button'
+import { Badge } from '../ui/badge'
+import { Separator } from '../ui/separator'
+import { LineageTree } from './LineageTree'
+import { AlertCircle, RotateCcw, Wand2 } from 'lucide-react'
+import { parseGenerationRecord, type GeneratedImage } from '../../lib/images'
+import { paramsFromImage, toGeneratorSearch } from '../../lib/jobs'
+
+interface ImageDetailsSheetProps {
+  image: GeneratedImage | null
+  onOpenChange: (open: boolean) => void
+  onSelectImage: (image: GeneratedImage) => void
+}
+
+function DetailRow({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div className="flex items-start justify-between gap-4 text-sm">
+      <span className="text-muted-foreground shrink-0">{label}</span>
+      <span className="text-right font-medium break-all">{children}</span>
+    </div>
+  )
+}
+
+export function ImageDetailsSheet({ image, onOpenChange, onSelectImage }: ImageDetailsSheetProps) {
+  const navigate = useNavigate()
+  const record = image ? parseGenerationRecord(image) : null
+
+  const handleReplay = () => {
+    if (!image) return
+    navigate(`/?${toGeneratorSearch(paramsFromImage(image))}`)
+  }
+
+  const handleRemix = () => {
+    if (!image) return
+    navigate(`/?${toGeneratorSearch({ ...paramsFromImage(image), parentId: image.id })}`)
+  }
+
+  return (
+    <Sheet open={!!image} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        {image && (
+          <div className="space-y-6">
+            <SheetHeader>
+              <SheetTitle>Image Details</SheetTitle>
+              <SheetDescription>
+                Generated {new Date(image.createdAt).toLocaleString()}
+              </SheetDescription>
+            </SheetHeader>
+
+            <img
+              src={image.url}
+              alt={image.prompt}
+              className="w-full rounded-lg object-cover"
+            />
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Prompt</p>
+              <p className="text-sm text-muted-foreground">{image.prompt}</p>
+              {record?.revisedPrompt && record.revisedPrompt !== image.prompt && (
+                <>
+                  <p className="text-sm font-medium pt-2">Revised by the model</p>
+                  <p className="text-sm text-muted-foreground">{record.revisedPrompt}</p>
+                </>
+              )}
+            </div>
+
+            <Separator />
+
+            <div className="space-y-3">
+              <DetailRow label="Size">{record?.size ?? image.size}</DetailRow>
+              <DetailRow label="Quality">{record?.quality ?? image.quality}</DetailRow>
+              <DetailRow label="Style">{record?.style ?? image.style ?? 'Unknown'}</DetailRow>
+              {record && (
+                <>
+                  <DetailRow label="Variants requested">{record.n}</DetailRow>
+                  <DetailRow label="Request duration">{(record.durationMs / 1000).toFixed(1)}s</DetailRow>
+                  <DetailRow label="Attempts">{record.attempts}</DetailRow>
+                  <DetailRow label="SDK version">{record.sdkVersion}</DetailRow>
+                  <DetailRow label="Job">{record.jobId}</DetailRow>
+                </>
+              )}
+            </div>
+
+            {!record && (
+              <p className="text-xs text-muted-foreground">
+                This image was created before generation records were kept, so only its basic
+                parameters are available.
+              </p>
+            )}
+
+            {record && record.errors.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Failed attempts</p>
+                {record.errors.map((error) => (
+                  <div key={`${error.attempt}-${error.at}`} className="flex items-start space-x-2 text-xs">
+                    <AlertCircle className="h-3 w-3 mt-0.5 text-red-500 shrink-0" />
+                    <div>
+                      <Badge variant="outline" className="text-xs mr-2">#{error.attempt}</Badge>
+                      <span className="text-muted-foreground">{error.message}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <Separator />
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Lineage</p>
+              <LineageTree image={image} onSelect={onSelectImage} />
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <Button onClick={handleReplay} variant="outline">
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Replay
+              </Button>
+              <Button onClick={handleRemix}>
+                <Wand2 className="h-4 w-4 mr-2" />
+                Remix
+              </Button>
+            </div>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,198 @@
+import { useState, useEffect, type KeyboardEvent } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from '../ui/dialog'
+import { Carousel, CarouselContent, CarouselItem, type CarouselApi } from '../ui/carousel'
+import { Button } from '../ui/button'
+import { Badge } from '../ui/badge'
+import { Separator } from '../ui/separator'
+import { ImageAnnotationControls } from './ImageAnnotationControls'
+import { ZoomableImage } from './ZoomableImage'
+import { ChevronLeft, ChevronRight, Download, PanelRight } from 'lucide-react'
+import { parseGenerationRecord, type GeneratedImage } from '../../lib/images'
+import { cn } from '../../lib/utils'
+
+interface ImageLightboxProps {
+  images: GeneratedImage[]
+  // Index of the image being viewed, or null when closed
+  index: number | null
+  onIndexChange: (index: number) => void
+  onClose: () => void
+  onDownload?: (image: GeneratedImage) => void
+  onAnnotate?: (image: GeneratedImage) => void
+  // Called when the viewer reaches the last loaded image
+  onReachEnd?: () => void
+}
+
+// Only slides this close to the current one load their full image
+const PRELOAD_DISTANCE = 2
+
+export function ImageLightbox({
+  images,
+  index,
+  onIndexChange,
+  onClose,
+  onDownload,
+  onAnnotate,
+  onReachEnd
+}: ImageLightboxProps) {
+  const [api, setApi] = useState<CarouselApi>()
+  const [zoomed, setZoomed] = useState(false)
+  const [showDetails, setShowDetails] = useState(true)
+  const open = index !== null && index < images.length
+  const [startIndex, setStartIndex] = useState(index ?? 0)
+  const [wasOpen, setWasOpen] = useState(open)
+
+  // The carousel remounts on every open, starting at the clicked image
+  if (open !== wasOpen) {
+    setWasOpen(open)
+    if (open) setStartIndex(index)
+    else setApi(undefined)
+  }
+
+  const image = open ? images[index] : null
+  const record = image ? parseGenerationRecord(image) : null
+
+  useEffect(() => {
+    if (!api) return
+    const handleSelect = () => onIndexChange(api.selectedScrollSnap())
+    api.on('select', handleSelect)
+    return () => {
+      api.off('select', handleSelect)
+    }
+  }, [api, onIndexChange])
+
+  // Follow index changes made from outside, e.g. the list being filtered
+  useEffect(() => {
+    if (api && index !== null && api.selectedScrollSnap() !== index) {
+      api.scrollTo(index, true)
+    }
+  }, [api, index])
+
+  useEffect(() => {
+    if (index !== null && index >= images.length - 1) onReachEnd?.()
+  }, [index, images.length, onReachEnd])
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    const target = event.target as HTMLElement
+    if (event.defaultPrevented || target.closest('input, textarea')) return
+
+    if (event.key === 'ArrowLeft') {
+      event.preventDefault()
+      api?.scrollPrev()
+    } else if (event.key === 'ArrowRight') {
+      event.preventDefault()
+      api?.scrollNext()
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent
+        className="max-w-none w-screen h-screen p-0 gap-0 border-0 bg-black/95 text-white sm:rounded-none flex"
+        onKeyDown={handleKeyDown}
+      >
+        <div className="relative flex-1 min-w-0 flex flex-col">
+          <div className="flex items-center justify-between px-4 h-14 shrink-0">
+            <span className="text-sm text-white/70">
+              {index !== null && `${index + 1} / ${images.length}`}
+            </span>
+            <div className="flex items-center gap-2 mr-10">
+              {image && onDownload && (
+                <Button size="sm" variant="ghost" className="text-white hover:bg-white/10 hover:text-white" onClick={() => onDownload(image)}>
+                  <Download className="h-4 w-4" />
+                </Button>
+              )}
+              <Button
+                size="sm"
+                variant="ghost"
+                className="text-white hover:bg-white/10 hover:text-white"
+                onClick={() => setShowDetails(!showDetails)}
+                title={showDetails ? 'Hide details' : 'Show details'}
+              >
+                <PanelRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          {open && (
+            <Carousel
+              setApi={setApi}
+              opts={{ startIndex, watchDrag: !zoomed }}
+              className="flex-1 min-h-0 [&>div]:h-full"
+            >
+              <CarouselContent className="h-full">
+                {images.map((slide, i) => (
+                  <CarouselItem key={slide.id} className="h-full">
+                    {Math.abs(i - index) <= PRELOAD_DISTANCE && (
+                      <ZoomableImage
+                        src={slide.url}
+                        alt={slide.prompt}
+                        onZoomChange={i === index ? setZoomed : undefined}
+                      />
+                    )}
+                  </CarouselItem>
+                ))}
+              </CarouselContent>
+            </Carousel>
+          )}
+
+          <Button
+            size="icon"
+            variant="ghost"
+            className="absolute left-2 top-1/2 -translate-y-1/2 h-10 w-10 rounded-full text-white hover:bg-white/10 hover:text-white"
+            onClick={() => api?.scrollPrev()}
+            disabled={index === 0}
+          >
+            <ChevronLeft className="h-6 w-6" />
+            <span className="sr-only">Previous image</span>
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            className="absolute right-2 top-1/2 -translate-y-1/2 h-10 w-10 rounded-full text-white hover:bg-white/10 hover:text-white"
+            onClick={() => api?.scrollNext()}
+            disabled={index === images.length - 1}
+          >
+            <ChevronRight className="h-6 w-6" />
+            <span className="sr-only">Next image</span>
+          </Button>
+        </div>
+
+        <aside
+          className={cn(
+            'w-80 shrink-0 bg-background text-foreground overflow-y-auto p-6 pt-14 space-y-4',
+            showDetails ? 'hidden md:block' : 'hidden'
+          )}
+        >
+          {image && (
+            <>
+              <div className="space-y-2">
+                <DialogTitle className="text-base">Prompt</DialogTitle>
+                <DialogDescription className="whitespace-pre-wrap">{image.prompt}</DialogDescription>
+              </div>
+              {record?.revisedPrompt && record.revisedPrompt !== image.prompt && (
+                <div className="space-y-2">
+                  <h3 className="text-sm font-medium">Revised prompt</h3>
+                  <p className="text-sm text-muted-foreground whitespace-pre-wrap">{record.revisedPrompt}</p>
+                </div>
+              )}
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="secondary">{image.size}</Badge>
+                <Badge variant="outline">{image.quality}</Badge>
+                {image.style && <Badge variant="outline">{image.style}</Badge>}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Created {new Date(image.createdAt).toLocaleString()}
+              </p>
+              {onAnnotate && (
+                <>
+                  <Separator />
+                  <ImageAnnotationControls image={image} onChange={onAnnotate} />
+                </>
+              )}
+            </>
+          )}
+        </aside>
+      </DialogContent>
+    </Dialog>
+  )
+}
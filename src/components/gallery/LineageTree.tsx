@@ -0,0 +1,113 @@
+import { useState, useEffect } from 'react'
+import { GitBranch, Loader2 } from 'lucide-react'
+import { loadLineage, type GeneratedImage, type Lineage, type LineageNode } from '../../lib/images'
+import { cn } from '../../lib/utils'
+
+interface LineageTreeProps {
+  image: GeneratedImage
+  onSelect: (image: GeneratedImage) => void
+}
+
+function LineageItem({
+  image,
+  current,
+  onSelect
+}: {
+  image: GeneratedImage
+  current: boolean
+  onSelect: (image: GeneratedImage) => void
+}) {
+  return (
+    <button
+      type="button"
+      onClick={() => onSelect(image)}
+      disabled={current}
+      className={cn(
+        'flex w-full items-center space-x-3 rounded-md p-1.5 text-left transition-colors',
+        current ? 'bg-indigo-50' : 'hover:bg-gray-50'
+      )}
+    >
+      <img src={image.url} alt={image.prompt} className="h-10 w-10 rounded object-cover shrink-0" />
+      <span className={cn('text-xs line-clamp-2', current ? 'font-medium text-indigo-700' : 'text-muted-foreground')}>
+        {image.prompt}
+      </span>
+    </button>
+  )
+}
+
+function DescendantList({ nodes, onSelect }: { nodes: LineageNode[]; onSelect: (image: GeneratedImage) => void }) {
+  return (
+    <div className="ml-4 border-l pl-2 space-y-1">
+      {nodes.map((node) => (
+        <div key={node.image.id}>
+          <LineageItem image={node.image} current={false} onSelect={onSelect} />
+          {node.children.length > 0 && (
+            <DescendantList nodes={node.children} onSelect={onSelect} />
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export function LineageTree({ image, onSelect }: LineageTreeProps) {
+  const [lineage, setLineage] = useState<Lineage | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+
+    loadLineage(image)
+      .then(result => {
+        if (!cancelled) setLineage(result)
+      })
+      .catch(error => {
+        console.error('Failed to load lineage:', error)
+        if (!cancelled) setLineage(null)
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [image])
+
+  if (loading) {
+    return (
+      <div className="flex items-center space-x-2 text-xs text-muted-foreground">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        <span>Loading lineage...</span>
+      </div>
+    )
+  }
+
+  if (!lineage || (lineage.ancestors.length === 0 && lineage.descendants.length === 0)) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        This image has no remixes yet.
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-1">
+      {lineage.ancestors.map((ancestor, index) => (
+        <div key={ancestor.id} style={{ marginLeft: index * 8 }}>
+          <LineageItem image={ancestor} current={false} onSelect={onSelect} />
+        </div>
+      ))}
+      <div style={{ marginLeft: lineage.ancestors.length * 8 }}>
+        <div className="flex items-center space-x-1">
+          <GitBranch className="h-3 w-3 text-indigo-500 shrink-0" />
+          <LineageItem image={image} current onSelect={onSelect} />
+        </div>
+        {lineage.descendants.length > 0 && (
+          <DescendantList nodes={lineage.descendants} onSelect={onSelect} />
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,104 @@
+import { useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog'
+import { Button } from '../ui/button'
+import { Label } from '../ui/label'
+import { Textarea } from '../ui/textarea'
+import { RadioGroup, RadioGroupItem } from '../ui/radio-group'
+import { blink } from '../../lib/blink'
+import {
+  reportImage,
+  ReportError,
+  REPORT_REASONS,
+  MAX_REPORT_COMMENT_LENGTH,
+  type ReportReason
+} from '../../lib/reports'
+import type { GeneratedImage } from '../../lib/images'
+import toast from 'react-hot-toast'
+
+interface ReportImageDialogProps {
+  // The image being reported, or null when closed
+  image: GeneratedImage | null
+  onClose: () => void
+}
+
+export function ReportImageDialog({ image, onClose }: ReportImageDialogProps) {
+  const [reason, setReason] = useState<ReportReason | ''>('')
+  const [comment, setComment] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  const close = () => {
+    setReason('')
+    setComment('')
+    onClose()
+  }
+
+  const handleSubmit = async () => {
+    if (!image || !reason) return
+
+    setSubmitting(true)
+    try {
+      const reporter = await blink.auth.me()
+      await reportImage(image, { id: reporter.id, email: reporter.email }, { reason, comment })
+      toast.success('Thanks. A moderator will review this image.')
+      close()
+    } catch (error) {
+      if (error instanceof ReportError) {
+        toast.error(error.message)
+        return
+      }
+      console.error('Failed to report image:', error)
+      toast.error('Failed to send report')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!image} onOpenChange={(open) => !open && close()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Report image</DialogTitle>
+          <DialogDescription>
+            Tell the moderators what's wrong. The owner won't see who reported it.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <RadioGroup value={reason} onValueChange={(value) => setReason(value as ReportReason)}>
+            {REPORT_REASONS.map(option => (
+              <div key={option.value} className="flex items-center space-x-2">
+                <RadioGroupItem value={option.value} id={`report-${option.value}`} />
+                <Label htmlFor={`report-${option.value}`} className="font-normal">{option.label}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+          <div className="space-y-2">
+            <Label htmlFor="reportComment">Comment</Label>
+            <Textarea
+              id="reportComment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Anything that helps a moderator decide"
+              maxLength={MAX_REPORT_COMMENT_LENGTH}
+              rows={3}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleSubmit} disabled={!reason || submitting}>
+            Send report
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,194 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../ui/dialog'
+import { Button } from '../ui/button'
+import { Badge } from '../ui/badge'
+import { Label } from '../ui/label'
+import { Switch } from '../ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import { Copy, Eye, Link2, Loader2, X } from 'lucide-react'
+import { blink } from '../../lib/blink'
+import {
+  createShareLink,
+  listShareLinks,
+  revokeShareLink,
+  shareLinkState,
+  shareLinkUrl,
+  ShareLinkError,
+  SHARE_EXPIRY_OPTIONS,
+  type ShareLink
+} from '../../lib/share-links'
+import type { GeneratedImage } from '../../lib/images'
+import toast from 'react-hot-toast'
+
+interface ShareLinksDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  userId: string | null
+  // Share this image, or manage every link when omitted
+  image?: GeneratedImage | null
+}
+
+export function ShareLinksDialog({ open, onOpenChange, userId, image }: ShareLinksDialogProps) {
+  const [links, setLinks] = useState<ShareLink[]>([])
+  const [thumbnails, setThumbnails] = useState<Record<string, GeneratedImage>>({})
+  const [loading, setLoading] = useState(false)
+  const [hidePrompt, setHidePrompt] = useState(false)
+  const [expiresIn, setExpiresIn] = useState('7')
+  const [creating, setCreating] = useState(false)
+  const imageId = image?.id
+
+  const loadLinks = useCallback(async () => {
+    if (!userId) return
+    setLoading(true)
+    try {
+      const list = await listShareLinks(userId, imageId)
+      setLinks(list)
+      if (!imageId && list.length > 0) {
+        const images: GeneratedImage[] = await blink.db.generatedImages.list({
+          where: { id: { in: [...new Set(list.map(link => link.imageId))] } }
+        })
+        setThumbnails(Object.fromEntries(images.map(i => [i.id, i])))
+      }
+    } catch (error) {
+      console.error('Failed to load share links:', error)
+      toast.error('Failed to load share links')
+    } finally {
+      setLoading(false)
+    }
+  }, [userId, imageId])
+
+  useEffect(() => {
+    if (open) loadLinks()
+  }, [open, loadLinks])
+
+  const copyLink = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(shareLinkUrl(link))
+      toast.success('Link copied to clipboard!')
+    } catch {
+      toast.error('Failed to copy link')
+    }
+  }
+
+  const handleCreate = async () => {
+    if (!image) return
+    setCreating(true)
+    try {
+      const days = parseInt(expiresIn)
+      const link = await createShareLink(image, { hidePrompt, expiresInDays: days > 0 ? days : null })
+      setLinks(prev => [link, ...prev])
+      copyLink(link)
+    } catch (error) {
+      if (error instanceof ShareLinkError) {
+        toast.error(error.message)
+        return
+      }
+      console.error('Failed to create share link:', error)
+      toast.error('Failed to create share link')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const handleRevoke = async (link: ShareLink) => {
+    try {
+      await revokeShareLink(link)
+      setLinks(prev => prev.filter(l => l.id !== link.id))
+      toast.success('Link turned off')
+    } catch (error) {
+      console.error('Failed to revoke share link:', error)
+      toast.error('Failed to turn off link')
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{image ? 'Share image' : 'Shared links'}</DialogTitle>
+          <DialogDescription>
+            {image
+              ? 'Anyone with the link can view this image until it expires or you turn it off.'
+              : 'Every link you have handed out. Turning one off stops it working straight away.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {image && (
+          <div className="space-y-4 rounded-lg border p-4">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="sharePrompt" className="font-normal">Hide the prompt</Label>
+              <Switch id="sharePrompt" checked={hidePrompt} onCheckedChange={setHidePrompt} />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <Label className="font-normal">Expires after</Label>
+              <Select value={expiresIn} onValueChange={setExpiresIn}>
+                <SelectTrigger className="w-[140px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SHARE_EXPIRY_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={handleCreate} disabled={creating} className="w-full">
+              <Link2 className="h-4 w-4 mr-2" />
+              Create and copy link
+            </Button>
+          </div>
+        )}
+
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : links.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              {image ? 'No links for this image yet' : "You haven't shared any images"}
+            </p>
+          ) : (
+            links.map(link => {
+              const state = shareLinkState(link)
+              const thumbnail = thumbnails[link.imageId]
+
+              return (
+                <div key={link.id} className="flex items-center gap-3 rounded-md border p-2">
+                  {!image && (
+                    thumbnail
+                      ? <img src={thumbnail.url} alt={thumbnail.prompt} className="h-10 w-10 rounded object-cover shrink-0" />
+                      : <div className="h-10 w-10 rounded bg-muted shrink-0" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-mono truncate">/s/{link.token}</p>
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <span className="flex items-center">
+                        <Eye className="h-3 w-3 mr-1" />
+                        {link.views || 0}
+                      </span>
+                      <span>
+                        {state === 'expired'
+                          ? 'Expired'
+                          : link.expiresAt ? `Expires ${new Date(link.expiresAt).toLocaleDateString()}` : 'No expiry'}
+                      </span>
+                      {Number(link.hidePrompt) === 1 && <Badge variant="outline" className="text-[10px] px-1">Prompt hidden</Badge>}
+                    </div>
+                  </div>
+                  {state === 'active' && (
+                    <Button size="sm" variant="ghost" onClick={() => copyLink(link)} title="Copy link">
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button size="sm" variant="ghost" onClick={() => handleRevoke(link)} title={state === 'active' ? 'Turn off link' : 'Remove'}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              )
+            })
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,78 @@
+import type { ReactNode } from 'react'
+import {
+  DndContext,
+  KeyboardSensor,
+  PointerSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent
+} from '@dnd-kit/core'
+import type { GeneratedImage } from '../../lib/images'
+import { cn } from '../../lib/utils'
+
+interface SortableImageGridProps {
+  images: GeneratedImage[]
+  onReorder: (orderedIds: string[]) => void
+  renderCard: (image: GeneratedImage) => ReactNode
+  className?: string
+}
+
+// Each tile is both draggable and a drop target; dropping on a tile moves the
+// dragged image into that tile's slot.
+function SortableTile({ id, children }: { id: string; children: ReactNode }) {
+  const { attributes, listeners, setNodeRef: setDragRef, transform, isDragging } = useDraggable({ id })
+  const { setNodeRef: setDropRef, isOver } = useDroppable({ id })
+
+  return (
+    <div
+      ref={(node) => {
+        setDragRef(node)
+        setDropRef(node)
+      }}
+      {...attributes}
+      {...listeners}
+      style={transform ? { transform: `translate3d(${transform.x}px, ${transform.y}px, 0)` } : undefined}
+      className={cn(
+        'cursor-grab touch-none rounded-xl',
+        isDragging && 'relative z-10 opacity-80 cursor-grabbing',
+        isOver && !isDragging && 'ring-2 ring-primary'
+      )}
+    >
+      {children}
+    </div>
+  )
+}
+
+export function SortableImageGrid({ images, onReorder, renderCard, className }: SortableImageGridProps) {
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 8 } }),
+    useSensor(KeyboardSensor)
+  )
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (!over || active.id === over.id) return
+
+    const ids = images.map(image => image.id)
+    const from = ids.indexOf(String(active.id))
+    const to = ids.indexOf(String(over.id))
+    if (from === -1 || to === -1) return
+
+    ids.splice(from, 1)
+    ids.splice(to, 0, String(active.id))
+    onReorder(ids)
+  }
+
+  return (
+    <DndContext sensors={sensors} onDragEnd={handleDragEnd}>
+      <div className={className}>
+        {images.map((image) => (
+          <SortableTile key={image.id} id={image.id}>
+            {renderCard(image)}
+          </SortableTile>
+        ))}
+      </div>
+    </DndContext>
+  )
+}
@@ -0,0 +1,131 @@
+import { useState, useEffect, useRef, type PointerEvent, type MouseEvent } from 'react'
+import { cn } from '../../lib/utils'
+
+interface ZoomableImageProps {
+  src: string
+  alt: string
+  onZoomChange?: (zoomed: boolean) => void
+  className?: string
+}
+
+interface Transform {
+  scale: number
+  x: number
+  y: number
+}
+
+const MIN_SCALE = 1
+const MAX_SCALE = 5
+const DOUBLE_CLICK_SCALE = 2.5
+const IDENTITY: Transform = { scale: 1, x: 0, y: 0 }
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale))
+
+// Scales around a point given relative to the container's centre, keeping the
+// content under that point fixed
+const zoomAt = (t: Transform, scale: number, px: number, py: number): Transform => {
+  const next = clampScale(scale)
+  if (next === MIN_SCALE) return IDENTITY
+  const ratio = next / t.scale
+  return { scale: next, x: px - (px - t.x) * ratio, y: py - (py - t.y) * ratio }
+}
+
+// Wheel and pinch zoom with drag-to-pan. While zoomed in, pointer gestures are
+// captured here so the surrounding carousel doesn't swipe.
+export function ZoomableImage({ src, alt, onZoomChange, className }: ZoomableImageProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const pointers = useRef(new Map<number, { x: number; y: number }>())
+  const pinchDistance = useRef<number | null>(null)
+  const [transform, setTransform] = useState<Transform>(IDENTITY)
+  const zoomed = transform.scale > MIN_SCALE
+
+  useEffect(() => {
+    onZoomChange?.(zoomed)
+  }, [zoomed, onZoomChange])
+
+  const relativePoint = (clientX: number, clientY: number) => {
+    const rect = containerRef.current!.getBoundingClientRect()
+    return { x: clientX - rect.left - rect.width / 2, y: clientY - rect.top - rect.height / 2 }
+  }
+
+  // React registers wheel listeners as passive, so preventDefault needs a
+  // native listener
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault()
+      const rect = container.getBoundingClientRect()
+      const px = event.clientX - rect.left - rect.width / 2
+      const py = event.clientY - rect.top - rect.height / 2
+      setTransform(t => zoomAt(t, t.scale * Math.exp(-event.deltaY * 0.002), px, py))
+    }
+
+    container.addEventListener('wheel', handleWheel, { passive: false })
+    return () => container.removeEventListener('wheel', handleWheel)
+  }, [])
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    pointers.current.set(event.pointerId, { x: event.clientX, y: event.clientY })
+    if (pointers.current.size === 2 || zoomed) {
+      event.stopPropagation()
+      event.currentTarget.setPointerCapture(event.pointerId)
+    }
+  }
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    const previous = pointers.current.get(event.pointerId)
+    if (!previous) return
+    pointers.current.set(event.pointerId, { x: event.clientX, y: event.clientY })
+
+    if (pointers.current.size === 2) {
+      const [a, b] = [...pointers.current.values()]
+      const distance = Math.hypot(a.x - b.x, a.y - b.y)
+      if (pinchDistance.current) {
+        const centre = relativePoint((a.x + b.x) / 2, (a.y + b.y) / 2)
+        const factor = distance / pinchDistance.current
+        setTransform(t => zoomAt(t, t.scale * factor, centre.x, centre.y))
+      }
+      pinchDistance.current = distance
+    } else if (zoomed) {
+      const dx = event.clientX - previous.x
+      const dy = event.clientY - previous.y
+      setTransform(t => ({ ...t, x: t.x + dx, y: t.y + dy }))
+    }
+  }
+
+  const handlePointerUp = (event: PointerEvent<HTMLDivElement>) => {
+    pointers.current.delete(event.pointerId)
+    if (pointers.current.size < 2) pinchDistance.current = null
+  }
+
+  const handleDoubleClick = (event: MouseEvent<HTMLDivElement>) => {
+    const point = relativePoint(event.clientX, event.clientY)
+    setTransform(t => zoomed ? IDENTITY : zoomAt(t, DOUBLE_CLICK_SCALE, point.x, point.y))
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className={cn(
+        'relative h-full w-full overflow-hidden flex items-center justify-center select-none touch-none',
+        zoomed ? 'cursor-grab' : 'cursor-zoom-in',
+        className
+      )}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onDoubleClick={handleDoubleClick}
+    >
+      <img
+        src={src}
+        alt={alt}
+        draggable={false}
+        className="max-h-full max-w-full object-contain transition-transform duration-75"
+        style={{ transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})` }}
+      />
+    </div>
+  )
+}
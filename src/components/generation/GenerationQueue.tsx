@@ -0,0 +1,127 @@
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { Button } from '../ui/button'
+import { Badge } from '../ui/badge'
+import { Progress } from '../ui/progress'
+import { ListOrdered, Loader2, RotateCcw, X } from 'lucide-react'
+import { useGenerationQueue } from '../../hooks/use-generation-queue'
+import { isActiveJob, type GenerationJob, type JobStatus } from '../../lib/jobs'
+
+function ElapsedTime({ since }: { since: string }) {
+  const [now, setNow] = useState(Date.now())
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  const seconds = Math.max(0, Math.floor((now - new Date(since).getTime()) / 1000))
+  return <span>{seconds}s</span>
+}
+
+const getStatusBadge = (status: JobStatus) => {
+  switch (status) {
+    case 'queued':
+      return <Badge variant="outline">Queued</Badge>
+    case 'running':
+      return <Badge variant="default" className="bg-indigo-500">Running</Badge>
+    case 'succeeded':
+      return <Badge variant="default" className="bg-green-500">Done</Badge>
+    case 'failed':
+      return <Badge variant="destructive">Failed</Badge>
+    case 'cancelled':
+      return <Badge variant="secondary">Cancelled</Badge>
+  }
+}
+
+// Progress across the current run: every job created since the oldest job
+// that is still waiting or running.
+const getRunProgress = (jobs: GenerationJob[]) => {
+  const activeJobs = jobs.filter(isActiveJob)
+  if (activeJobs.length === 0) return null
+
+  const runStart = Math.min(...activeJobs.map(job => new Date(job.createdAt).getTime()))
+  const runJobs = jobs.filter(job => new Date(job.createdAt).getTime() >= runStart)
+  const settled = runJobs.filter(job => !isActiveJob(job)).length
+
+  return {
+    settled,
+    total: runJobs.length,
+    percent: Math.round((settled / runJobs.length) * 100)
+  }
+}
+
+export function GenerationQueue() {
+  const { jobs, loading, cancel, retry } = useGenerationQueue()
+
+  if (loading || jobs.length === 0) return null
+
+  const runProgress = getRunProgress(jobs)
+  const queuedCount = jobs.filter(job => job.status === 'queued').length
+
+  return (
+    <Card className="border-0 shadow-xl bg-white/80 backdrop-blur-sm">
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center justify-between text-xl">
+          <span className="flex items-center space-x-2">
+            <ListOrdered className="h-5 w-5 text-indigo-600" />
+            <span>Generation Queue</span>
+          </span>
+          {queuedCount > 0 && (
+            <span className="text-sm font-normal text-gray-500">{queuedCount} waiting</span>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {runProgress && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm text-gray-600">
+              <span>{runProgress.settled} of {runProgress.total} jobs finished</span>
+              <span>{runProgress.percent}%</span>
+            </div>
+            <Progress value={runProgress.percent} className="h-2" />
+          </div>
+        )}
+
+        <div className="space-y-3 max-h-80 overflow-y-auto">
+          {jobs.map((job) => (
+            <div key={job.id} className="flex items-start justify-between space-x-3 p-3 border rounded-lg bg-white">
+              <div className="flex-1 min-w-0 space-y-1">
+                <p className="text-sm text-gray-700 line-clamp-1">{job.prompt}</p>
+                <div className="flex items-center space-x-2 text-xs text-gray-500">
+                  {getStatusBadge(job.status)}
+                  {job.policySeverity === 'review' && (
+                    <Badge variant="outline" className="border-amber-300 text-amber-700">Review</Badge>
+                  )}
+                  <span>
+                    {job.size} · {job.quality} · {job.style}
+                    {job.n > 1 && ` · ${job.n} variants`}
+                  </span>
+                  {job.status === 'running' && job.startedAt && (
+                    <span className="flex items-center space-x-1">
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                      <ElapsedTime since={job.startedAt} />
+                    </span>
+                  )}
+                </div>
+                {job.status === 'failed' && job.error && (
+                  <p className="text-xs text-red-600 line-clamp-2">{job.error}</p>
+                )}
+              </div>
+              {isActiveJob(job) && (
+                <Button size="sm" variant="ghost" onClick={() => cancel(job.id)} title="Cancel">
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+              {(job.status === 'failed' || job.status === 'cancelled') && (
+                <Button size="sm" variant="ghost" onClick={() => retry(job.id)} title="Retry">
+                  <RotateCcw className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
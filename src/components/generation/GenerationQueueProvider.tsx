@@ -0,0 +1,328 @@
+import { useState, useEffect, useRef, useCallback, type ReactNode } from 'react'
+import toast from 'react-hot-toast'
+import { GenerationQueueContext } from '../../hooks/use-generation-queue'
+import { useSettings } from '../../hooks/use-settings'
+import {
+  listJobs,
+  createJob,
+  updateJob,
+  listJobImages,
+  runJob,
+  appendErrorLog,
+  type GenerationJob,
+  type GenerationParams
+} from '../../lib/jobs'
+import { trashImages, type GeneratedImage } from '../../lib/images'
+import {
+  getUserQuota,
+  assertQuota,
+  describeQuotaShortfall,
+  QuotaExceededError,
+  type QuotaStatus
+} from '../../lib/quota'
+import { consumeRateLimit } from '../../lib/rate-limit'
+import { assertNotInMaintenance, MaintenanceError } from '../../lib/maintenance'
+import { assertAccountActive, AccountRestrictedError } from '../../lib/user-status'
+import {
+  screenPrompt,
+  recordPolicyEvent,
+  PolicyViolationError,
+  type PolicyVerdict
+} from '../../lib/policy'
+
+interface GenerationQueueProviderProps {
+  userId: string
+  // Whether generation keeps working during maintenance
+  bypassMaintenance: boolean
+  children: ReactNode
+}
+
+// Lives above the router so queued jobs keep running while the user moves
+// between pages. Jobs are processed one at a time, oldest first.
+export function GenerationQueueProvider({ userId, bypassMaintenance, children }: GenerationQueueProviderProps) {
+  const { reload: reloadSettings } = useSettings()
+  const [jobs, setJobs] = useState<GenerationJob[]>([])
+  const [images, setImages] = useState<GeneratedImage[]>([])
+  const [loading, setLoading] = useState(true)
+  const [quota, setQuota] = useState<QuotaStatus | null>(null)
+  const [rateLimitedUntil, setRateLimitedUntil] = useState<number | null>(null)
+  const [activeJobId, setActiveJobId] = useState<string | null>(null)
+  const runningRef = useRef<string | null>(null)
+  const controllers = useRef(new Map<string, AbortController>())
+
+  const patchJob = useCallback(async (jobId: string, changes: Partial<GenerationJob>) => {
+    setJobs(prev => prev.map(job => job.id === jobId ? { ...job, ...changes } : job))
+    try {
+      await updateJob(jobId, changes)
+    } catch (error) {
+      console.error('Failed to update job:', error)
+    }
+  }, [])
+
+  const refreshQuota = useCallback(async () => {
+    try {
+      setQuota(await getUserQuota(userId))
+    } catch (error) {
+      console.error('Failed to load quota:', error)
+    }
+  }, [userId])
+
+  useEffect(() => {
+    refreshQuota()
+  }, [refreshQuota])
+
+  useEffect(() => {
+    const loadQueue = async () => {
+      try {
+        const storedJobs = await listJobs(userId)
+
+        // A job still marked running was interrupted by a reload or closed tab;
+        // its request is gone, so surface it as failed and let the user retry.
+        const interrupted = storedJobs.filter(job => job.status === 'running')
+        const changes = {
+          status: 'failed' as const,
+          error: 'Interrupted before the image finished generating',
+          completedAt: new Date().toISOString()
+        }
+        await Promise.all(interrupted.map(job => updateJob(job.id, changes)))
+
+        const restoredJobs = storedJobs.map(job => job.status === 'running' ? { ...job, ...changes } : job)
+        setJobs(restoredJobs)
+        setImages(await listJobImages(restoredJobs))
+      } catch (error) {
+        console.error('Failed to load generation queue:', error)
+        toast.error('Failed to load generation queue')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadQueue()
+  }, [userId])
+
+  useEffect(() => {
+    const activeControllers = controllers.current
+    return () => {
+      activeControllers.forEach(controller => controller.abort())
+    }
+  }, [])
+
+  const processJob = useCallback(async (job: GenerationJob) => {
+    const controller = new AbortController()
+    controllers.current.set(job.id, controller)
+    runningRef.current = job.id
+    setActiveJobId(job.id)
+
+    const started: Partial<GenerationJob> = {
+      status: 'running',
+      attempts: job.attempts + 1,
+      startedAt: new Date().toISOString(),
+      error: null
+    }
+    const attempt = { ...job, ...started }
+
+    try {
+      await patchJob(job.id, started)
+      await assertNotInMaintenance(bypassMaintenance)
+      await assertAccountActive(userId)
+      // Re-checked here because other tabs or devices may have used quota
+      // since the job was queued
+      await assertQuota(userId, job.n)
+
+      const batch = await runJob(attempt, controller.signal)
+
+      await patchJob(job.id, {
+        status: 'succeeded',
+        batchId: batch[0].batchId,
+        completedAt: new Date().toISOString()
+      })
+      setImages(prev => [...batch, ...prev])
+      toast.success(batch.length > 1 ? `${batch.length} variants generated!` : 'Image generated successfully!')
+    } catch (error) {
+      // Cancelled jobs were already marked by cancel()
+      if (!controller.signal.aborted) {
+        console.error('Generation failed:', error)
+        const message = error instanceof Error ? error.message : 'Generation failed'
+        await patchJob(job.id, {
+          status: 'failed',
+          error: message,
+          errorLog: appendErrorLog(attempt, message),
+          completedAt: new Date().toISOString()
+        })
+        const refused = error instanceof QuotaExceededError ||
+          error instanceof MaintenanceError ||
+          error instanceof AccountRestrictedError
+        toast.error(refused
+          ? message
+          : 'Failed to generate image. You can retry it from the queue.')
+        // Bring up the maintenance screen without waiting for the next refresh
+        if (error instanceof MaintenanceError) reloadSettings()
+      }
+    } finally {
+      controllers.current.delete(job.id)
+      runningRef.current = null
+      setActiveJobId(null)
+      refreshQuota()
+    }
+  }, [userId, bypassMaintenance, patchJob, refreshQuota, reloadSettings])
+
+  useEffect(() => {
+    if (loading || activeJobId || runningRef.current) return
+
+    const nextJob = [...jobs].reverse().find(job => job.status === 'queued')
+    if (nextJob) {
+      processJob(nextJob)
+    }
+  }, [jobs, loading, activeJobId, processJob])
+
+  useEffect(() => {
+    if (!rateLimitedUntil) return
+    const timeout = setTimeout(() => setRateLimitedUntil(null), Math.max(0, rateLimitedUntil - Date.now()))
+    return () => clearTimeout(timeout)
+  }, [rateLimitedUntil])
+
+  // Every request the user starts, new or retried, goes through the limiter
+  const admitRequest = useCallback(async () => {
+    const result = await consumeRateLimit(userId)
+    if (result.allowed) return true
+
+    setRateLimitedUntil(result.retryAt)
+    const seconds = Math.ceil((result.retryAt - Date.now()) / 1000)
+    toast.error(`Too many requests. Try again in ${seconds}s.`)
+    return false
+  }, [userId])
+
+  // Variants of jobs that haven't finished yet are held against the quota so
+  // a full queue can't overshoot it
+  const reserved = jobs
+    .filter(job => job.status === 'queued' || job.status === 'running')
+    .reduce((sum, job) => sum + job.n, 0)
+
+  const enqueue = useCallback(async (params: GenerationParams, acknowledged?: PolicyVerdict) => {
+    const shortfall = quota && describeQuotaShortfall(quota, params.n, reserved)
+    if (shortfall) {
+      toast.error(shortfall)
+      return null
+    }
+
+    try {
+      await assertNotInMaintenance(bypassMaintenance)
+      await assertAccountActive(userId)
+
+      // Screened against the rules as they are now, even when the user is
+      // confirming an earlier verdict
+      const verdict = await screenPrompt(params.prompt)
+      if (verdict.severity === 'block') {
+        await recordPolicyEvent(userId, params.prompt, verdict)
+        throw new PolicyViolationError(verdict)
+      }
+      if (verdict.severity && verdict.severity !== acknowledged?.severity) return verdict
+
+      if (!(await admitRequest())) return null
+      const job = await createJob(userId, params, verdict)
+      await recordPolicyEvent(userId, params.prompt, verdict)
+      setJobs(prev => [job, ...prev])
+      toast.success(verdict.severity === 'review'
+        ? 'Queued. Images will be visible once a moderator reviews them.'
+        : 'Added to the generation queue')
+    } catch (error) {
+      if (
+        error instanceof MaintenanceError ||
+        error instanceof AccountRestrictedError ||
+        error instanceof PolicyViolationError
+      ) {
+        toast.error(error.message)
+        if (error instanceof MaintenanceError) reloadSettings()
+        return null
+      }
+      console.error('Failed to queue generation:', error)
+      toast.error('Failed to queue generation')
+    }
+    return null
+  }, [userId, bypassMaintenance, quota, reserved, admitRequest, reloadSettings])
+
+  const cancel = useCallback(async (jobId: string) => {
+    const job = jobs.find(j => j.id === jobId)
+    if (!job || (job.status !== 'queued' && job.status !== 'running')) return
+
+    controllers.current.get(jobId)?.abort()
+    await patchJob(jobId, {
+      status: 'cancelled',
+      completedAt: new Date().toISOString()
+    })
+  }, [jobs, patchJob])
+
+  const retry = useCallback(async (jobId: string) => {
+    const job = jobs.find(j => j.id === jobId)
+    if (!job || (job.status !== 'failed' && job.status !== 'cancelled')) return
+
+    try {
+      if (!(await admitRequest())) return
+    } catch (error) {
+      console.error('Failed to check rate limit:', error)
+      toast.error('Failed to retry generation')
+      return
+    }
+
+    await patchJob(jobId, {
+      status: 'queued',
+      error: null,
+      startedAt: null,
+      completedAt: null
+    })
+  }, [jobs, patchJob, admitRequest])
+
+  const pickFavorite = useCallback(async (jobId: string, imageId: string) => {
+    await patchJob(jobId, { pickedImageId: imageId })
+  }, [patchJob])
+
+  const discardUnpicked = useCallback(async (jobId: string) => {
+    const job = jobs.find(j => j.id === jobId)
+    if (!job?.batchId || !job.pickedImageId) return
+
+    const discardedIds = images
+      .filter(image => image.batchId === job.batchId && image.id !== job.pickedImageId)
+      .map(image => image.id)
+
+    try {
+      await trashImages(discardedIds)
+      setImages(prev => prev.filter(image => !discardedIds.includes(image.id)))
+      toast.success(`Moved ${discardedIds.length} variant${discardedIds.length === 1 ? '' : 's'} to trash`)
+    } catch (error) {
+      console.error('Failed to discard variants:', error)
+      toast.error('Failed to discard variants')
+    }
+  }, [jobs, images])
+
+  // Keep the results panel in sync with edits and deletions made in the Gallery
+  const replaceImage = useCallback((updated: GeneratedImage) => {
+    setImages(prev => prev.map(image => image.id === updated.id ? updated : image))
+  }, [])
+
+  const forgetImages = useCallback((imageIds: string[]) => {
+    setImages(prev => prev.filter(image => !imageIds.includes(image.id)))
+  }, [])
+
+  return (
+    <GenerationQueueContext.Provider
+      value={{
+        jobs,
+        images,
+        loading,
+        enqueue,
+        cancel,
+        retry,
+        pickFavorite,
+        discardUnpicked,
+        replaceImage,
+        forgetImages,
+        quota,
+        reserved,
+        refreshQuota,
+        rateLimitedUntil
+      }}
+    >
+      {children}
+    </GenerationQueueContext.Provider>
+  )
+}
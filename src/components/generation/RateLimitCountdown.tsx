@@ -0,0 +1,20 @@
+import { useState, useEffect } from 'react'
+import { Timer } from 'lucide-react'
+
+// Ticks down to the moment the rate limit lets another request through
+export function RateLimitCountdown({ until }: { until: number }) {
+  const [now, setNow] = useState(Date.now())
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  const seconds = Math.max(0, Math.ceil((until - now) / 1000))
+  return (
+    <div className="flex items-center space-x-2 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+      <Timer className="h-4 w-4 shrink-0" />
+      <span>Rate limit reached. You can generate again in {seconds}s.</span>
+    </div>
+  )
+}
@@ -9,6 +9,7 @@ import {
   DropdownMenuTrigger,
 } from '../ui/dropdown-menu'
 import { Avatar, AvatarFallback } from '../ui/avatar'
+import { NotificationsMenu } from './NotificationsMenu'
 import { blink } from '../../lib/blink'
 
 interface HeaderProps {
@@ -54,6 +55,7 @@ export function Header({ user, onMenuClick }: HeaderProps) {
         </div>
 
         <div className="flex items-center space-x-4">
+          <NotificationsMenu userId={user.id} />
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button variant="ghost" className="relative h-8 w-8 rounded-full">
@@ -0,0 +1,90 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { Bell } from 'lucide-react'
+import { Button } from '../ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '../ui/dropdown-menu'
+import {
+  listNotifications,
+  markNotificationsRead,
+  isUnread,
+  type Notification
+} from '../../lib/notifications'
+import { cn } from '../../lib/utils'
+
+const REFRESH_INTERVAL_MS = 60 * 1000
+
+export function NotificationsMenu({ userId }: { userId: string }) {
+  const [notifications, setNotifications] = useState<Notification[]>([])
+  const navigate = useNavigate()
+  const unread = notifications.filter(isUnread)
+
+  const load = useCallback(async () => {
+    try {
+      setNotifications(await listNotifications(userId))
+    } catch (error) {
+      console.error('Failed to load notifications:', error)
+    }
+  }, [userId])
+
+  useEffect(() => {
+    load()
+    const interval = setInterval(load, REFRESH_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [load])
+
+  // Everything shown counts as read once the menu closes; until then the
+  // new ones stay highlighted
+  const handleOpenChange = async (open: boolean) => {
+    if (open || unread.length === 0) return
+    const ids = unread.map(notification => notification.id)
+    setNotifications(prev => prev.map(n => ids.includes(n.id) ? { ...n, read: 1 } : n))
+    try {
+      await markNotificationsRead(ids)
+    } catch (error) {
+      console.error('Failed to mark notifications read:', error)
+    }
+  }
+
+  return (
+    <DropdownMenu onOpenChange={handleOpenChange}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative h-8 w-8 p-0" title="Notifications">
+          <Bell className="h-5 w-5" />
+          {unread.length > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-red-500 text-[10px] font-medium text-white flex items-center justify-center">
+              {unread.length > 9 ? '9+' : unread.length}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-80" align="end">
+        <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-4 text-sm text-center text-muted-foreground">You're all caught up</p>
+        ) : (
+          notifications.map(notification => (
+            <DropdownMenuItem
+              key={notification.id}
+              onClick={() => notification.link && navigate(notification.link)}
+              className={cn('flex-col items-start gap-1', isUnread(notification) && 'bg-indigo-50')}
+            >
+              <span className="text-sm font-medium">{notification.title}</span>
+              <span className="text-xs text-muted-foreground whitespace-normal">{notification.body}</span>
+              <span className="text-[10px] text-muted-foreground">
+                {new Date(notification.createdAt).toLocaleString()}
+              </span>
+            </DropdownMenuItem>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -1,11 +1,18 @@
 import { Link, useLocation } from 'react-router-dom'
 import { cn } from '../../lib/utils'
+import type { Permission } from '../../lib/permissions'
 import { 
   Wand2, 
   Image as ImageIcon, 
   LayoutDashboard, 
   Users, 
   BarChart3,
+  Settings,
+  ScrollText,
+  ShieldCheck,
+  ShieldAlert,
+  Flag,
+  Compass,
   X,
   Sparkles
 } from 'lucide-react'
@@ -19,7 +26,7 @@ interface User {
 
 interface SidebarProps {
   user: User
-  isAdmin: boolean
+  permissions: Set<Permission>
   open: boolean
   onClose: () => void
 }
@@ -27,20 +34,28 @@ interface SidebarProps {
 const navigation = [
   { name: 'Generate', href: '/', icon: Wand2, adminOnly: false },
   { name: 'Gallery', href: '/gallery', icon: ImageIcon, adminOnly: false },
+  { name: 'Explore', href: '/explore', icon: Compass, adminOnly: false },
 ]
 
-const adminNavigation = [
-  { name: 'Dashboard', href: '/admin', icon: LayoutDashboard, adminOnly: true },
-  { name: 'Users', href: '/admin/users', icon: Users, adminOnly: true },
-  { name: 'Analytics', href: '/admin/analytics', icon: BarChart3, adminOnly: true },
+// Each entry shows for users whose role grants its permission
+const adminNavigation: { name: string; href: string; icon: typeof Users; permission: Permission }[] = [
+  { name: 'Dashboard', href: '/admin', icon: LayoutDashboard, permission: 'viewAnalytics' },
+  { name: 'Users', href: '/admin/users', icon: Users, permission: 'manageUsers' },
+  { name: 'Moderation', href: '/admin/moderation', icon: ShieldCheck, permission: 'moderateContent' },
+  { name: 'Reports', href: '/admin/reports', icon: Flag, permission: 'moderateContent' },
+  { name: 'Content Policy', href: '/admin/policy', icon: ShieldAlert, permission: 'moderateContent' },
+  { name: 'Analytics', href: '/admin/analytics', icon: BarChart3, permission: 'viewAnalytics' },
+  { name: 'Settings', href: '/admin/settings', icon: Settings, permission: 'editSettings' },
+  { name: 'Audit Log', href: '/admin/audit', icon: ScrollText, permission: 'viewAuditLog' },
 ]
 
-export function Sidebar({ user, isAdmin, open, onClose }: SidebarProps) {
+export function Sidebar({ user, permissions, open, onClose }: SidebarProps) {
   const location = useLocation()
+  const isStaff = permissions.size > 0
 
   const allNavigation = [
     ...navigation,
-    ...(isAdmin ? adminNavigation : [])
+    ...adminNavigation.filter(item => permissions.has(item.permission))
   ]
 
   return (
@@ -67,7 +82,7 @@ export function Sidebar({ user, isAdmin, open, onClose }: SidebarProps) {
               </div>
               <div>
                 <h1 className="text-lg font-bold text-gray-900">AI Generator</h1>
-                {isAdmin && (
+                {isStaff && (
                   <span className="text-xs text-indigo-600 font-medium">Admin Panel</span>
                 )}
               </div>
@@ -123,12 +138,18 @@ export function Sidebar({ user, isAdmin, open, onClose }: SidebarProps) {
                 </p>
               </div>
             </div>
-            {isAdmin && (
+            {user.role === 'admin' ? (
               <div className="mt-2">
                 <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
                   Administrator
                 </span>
               </div>
+            ) : isStaff && (
+              <div className="mt-2">
+                <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
+                  Staff
+                </span>
+              </div>
             )}
           </div>
         </div>
@@ -0,0 +1,28 @@
+import { Link } from 'react-router-dom'
+import { Wrench } from 'lucide-react'
+import { useSettings } from '../../hooks/use-settings'
+import { isMaintenanceActive, maintenanceEndDate } from '../../lib/maintenance'
+
+// Reminds admins that everyone else is locked out. It can't be dismissed;
+// it goes away when maintenance is turned off.
+export function MaintenanceBanner() {
+  const { settings } = useSettings()
+  if (!isMaintenanceActive(settings)) return null
+
+  const endsAt = maintenanceEndDate(settings)
+
+  return (
+    <div className="bg-amber-100 border-b border-amber-200 text-amber-900">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center gap-3 text-sm">
+        <Wrench className="h-4 w-4 shrink-0" />
+        <p className="flex-1">
+          Maintenance mode is on. Other users see the maintenance screen and can't generate images
+          {endsAt ? ` until ${endsAt.toLocaleString()}` : ''}.
+        </p>
+        <Link to="/admin/settings" className="font-medium underline underline-offset-2 shrink-0">
+          Settings
+        </Link>
+      </div>
+    </div>
+  )
+}
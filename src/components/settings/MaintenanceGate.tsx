@@ -0,0 +1,68 @@
+import { useState, useEffect, type ReactNode } from 'react'
+import { Wrench } from 'lucide-react'
+import { blink } from '../../lib/blink'
+import { useSettings } from '../../hooks/use-settings'
+import { isMaintenanceActive, maintenanceEndDate } from '../../lib/maintenance'
+
+interface MaintenanceGateProps {
+  // Lets the viewer through regardless, e.g. those who can edit settings
+  exempt: boolean
+  children: ReactNode
+}
+
+// Shows the maintenance screen instead of the app while maintenance is on.
+// Exempt viewers always get through.
+export function MaintenanceGate({ exempt, children }: MaintenanceGateProps) {
+  const { settings, loading } = useSettings()
+  const [now, setNow] = useState(() => Date.now())
+  const endsAt = maintenanceEndDate(settings)
+  const endTime = endsAt?.getTime()
+
+  // Reopen the app when the scheduled end time arrives
+  useEffect(() => {
+    if (!settings.maintenanceMode || endTime === undefined) return
+    const timeout = setTimeout(() => setNow(Date.now()), Math.max(0, endTime - Date.now()))
+    return () => clearTimeout(timeout)
+  }, [settings.maintenanceMode, endTime])
+
+  if (exempt) return <>{children}</>
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-indigo-50 via-white to-purple-50">
+        <div className="w-16 h-16 border-4 border-indigo-200 border-t-indigo-600 rounded-full animate-spin"></div>
+      </div>
+    )
+  }
+
+  if (!isMaintenanceActive(settings, now)) return <>{children}</>
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-indigo-50 via-white to-purple-50">
+      <div className="text-center space-y-6 max-w-md mx-auto px-4">
+        <div className="w-20 h-20 bg-gradient-to-r from-indigo-500 to-purple-600 rounded-2xl flex items-center justify-center mx-auto">
+          <Wrench className="w-10 h-10 text-white" />
+        </div>
+        <div className="space-y-4">
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-indigo-600 to-purple-600 bg-clip-text text-transparent">
+            {settings.siteName} is under maintenance
+          </h1>
+          {settings.maintenanceMessage && (
+            <p className="text-gray-600 whitespace-pre-wrap">{settings.maintenanceMessage}</p>
+          )}
+          {endsAt && (
+            <p className="text-sm text-gray-500">
+              Expected back {endsAt.toLocaleString()}
+            </p>
+          )}
+        </div>
+        <button
+          onClick={() => blink.auth.logout()}
+          className="text-sm text-indigo-600 hover:text-indigo-700 font-medium"
+        >
+          Sign out
+        </button>
+      </div>
+    </div>
+  )
+}
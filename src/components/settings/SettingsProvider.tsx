@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback, useRef, type ReactNode } from 'react'
+import { SettingsContext } from '../../hooks/use-settings'
+import {
+  loadSettings,
+  saveSettings,
+  DEFAULT_SETTINGS,
+  type SystemSettings,
+  type SettingsActor
+} from '../../lib/settings'
+
+interface SettingsProviderProps {
+  children: ReactNode
+}
+
+// Picks up changes other admins make, such as maintenance being switched on
+const REFRESH_INTERVAL_MS = 60 * 1000
+
+// Loads the site-wide settings at startup and refreshes them periodically.
+// Until they arrive, and if they can't be loaded, the defaults apply; a
+// failed first load is flagged so access checks don't run on the defaults.
+export function SettingsProvider({ children }: SettingsProviderProps) {
+  const [settings, setSettings] = useState<SystemSettings>(DEFAULT_SETTINGS)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState(false)
+  const loadedRef = useRef(false)
+
+  const reload = useCallback(async () => {
+    try {
+      const loaded = await loadSettings()
+      // Keep the same object when nothing changed so forms being edited
+      // aren't reset by a refresh
+      setSettings(prev => JSON.stringify(prev) === JSON.stringify(loaded) ? prev : loaded)
+      loadedRef.current = true
+      setError(false)
+    } catch (error) {
+      console.error('Failed to load settings:', error)
+      // A failed refresh keeps the last settings that did load
+      if (!loadedRef.current) setError(true)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    reload()
+    const interval = setInterval(reload, REFRESH_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [reload])
+
+  const save = useCallback(async (next: SystemSettings, actor: SettingsActor) => {
+    const result = await saveSettings(next, actor)
+    setSettings(result.settings)
+    loadedRef.current = true
+    setError(false)
+    return result.changes
+  }, [])
+
+  return (
+    <SettingsContext.Provider value={{ settings, loading, error, reload, save }}>
+      {children}
+    </SettingsContext.Provider>
+  )
+}
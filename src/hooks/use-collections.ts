@@ -0,0 +1,104 @@
+import { useState, useEffect, useCallback } from 'react'
+import toast from 'react-hot-toast'
+import {
+  listCollections,
+  createCollection,
+  updateCollection,
+  deleteCollection,
+  addImagesToCollection,
+  removeImagesFromCollection,
+  type CollectionSummary
+} from '../lib/collections'
+
+export function useCollections(userId: string | null) {
+  const [collections, setCollections] = useState<CollectionSummary[]>([])
+
+  const reload = useCallback(async () => {
+    if (!userId) return
+    try {
+      setCollections(await listCollections(userId))
+    } catch (error) {
+      console.error('Failed to load collections:', error)
+      toast.error('Failed to load collections')
+    }
+  }, [userId])
+
+  useEffect(() => {
+    reload()
+  }, [reload])
+
+  const create = useCallback(async (name: string) => {
+    if (!userId || !name.trim()) return null
+    try {
+      const collection = await createCollection(userId, name)
+      await reload()
+      toast.success(`Created "${collection.name}"`)
+      return collection
+    } catch (error) {
+      console.error('Failed to create collection:', error)
+      toast.error('Failed to create collection')
+      return null
+    }
+  }, [userId, reload])
+
+  const rename = useCallback(async (collectionId: string, name: string) => {
+    if (!name.trim()) return
+    try {
+      await updateCollection(collectionId, { name: name.trim() })
+      await reload()
+    } catch (error) {
+      console.error('Failed to rename collection:', error)
+      toast.error('Failed to rename collection')
+    }
+  }, [reload])
+
+  const remove = useCallback(async (collectionId: string) => {
+    try {
+      await deleteCollection(collectionId)
+      await reload()
+      toast.success('Collection deleted')
+    } catch (error) {
+      console.error('Failed to delete collection:', error)
+      toast.error('Failed to delete collection')
+    }
+  }, [reload])
+
+  const setCover = useCallback(async (collectionId: string, imageId: string) => {
+    try {
+      await updateCollection(collectionId, { coverImageId: imageId })
+      await reload()
+      toast.success('Cover updated')
+    } catch (error) {
+      console.error('Failed to set cover:', error)
+      toast.error('Failed to set cover')
+    }
+  }, [reload])
+
+  const addImages = useCallback(async (collectionId: string, imageIds: string[]) => {
+    if (!userId) return
+    try {
+      const added = await addImagesToCollection(userId, collectionId, imageIds)
+      await reload()
+      const name = collections.find(c => c.id === collectionId)?.name || 'collection'
+      toast.success(added > 0
+        ? `Added ${added} image${added === 1 ? '' : 's'} to "${name}"`
+        : `Already in "${name}"`)
+    } catch (error) {
+      console.error('Failed to add to collection:', error)
+      toast.error('Failed to add to collection')
+    }
+  }, [userId, collections, reload])
+
+  const removeImages = useCallback(async (collectionId: string, imageIds: string[]) => {
+    try {
+      await removeImagesFromCollection(collectionId, imageIds)
+      await reload()
+      toast.success(`Removed ${imageIds.length} image${imageIds.length === 1 ? '' : 's'} from collection`)
+    } catch (error) {
+      console.error('Failed to remove from collection:', error)
+      toast.error('Failed to remove from collection')
+    }
+  }, [reload])
+
+  return { collections, reload, create, rename, remove, setCover, addImages, removeImages }
+}
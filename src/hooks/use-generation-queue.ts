@@ -0,0 +1,36 @@
+import { createContext, useContext } from 'react'
+import type { GenerationJob, GenerationParams } from '../lib/jobs'
+import type { GeneratedImage } from '../lib/images'
+import type { QuotaStatus } from '../lib/quota'
+import type { PolicyVerdict } from '../lib/policy'
+
+export interface GenerationQueueValue {
+  jobs: GenerationJob[]
+  images: GeneratedImage[]
+  loading: boolean
+  // Resolves with the policy verdict when the prompt needs the user to confirm
+  // it first; calling again with that verdict queues the job
+  enqueue: (params: GenerationParams, acknowledged?: PolicyVerdict) => Promise<PolicyVerdict | null>
+  cancel: (jobId: string) => Promise<void>
+  retry: (jobId: string) => Promise<void>
+  pickFavorite: (jobId: string, imageId: string) => Promise<void>
+  discardUnpicked: (jobId: string) => Promise<void>
+  replaceImage: (image: GeneratedImage) => void
+  forgetImages: (imageIds: string[]) => void
+  quota: QuotaStatus | null
+  // Images that queued and running jobs are expected to produce
+  reserved: number
+  refreshQuota: () => Promise<void>
+  // When the rate limit lets the user send another request, if it is in force
+  rateLimitedUntil: number | null
+}
+
+export const GenerationQueueContext = createContext<GenerationQueueValue | null>(null)
+
+export function useGenerationQueue() {
+  const context = useContext(GenerationQueueContext)
+  if (!context) {
+    throw new Error('useGenerationQueue must be used within a GenerationQueueProvider')
+  }
+  return context
+}
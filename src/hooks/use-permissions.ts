@@ -0,0 +1,12 @@
+import { createContext, useContext } from 'react'
+import type { Permission } from '../lib/permissions'
+
+export const PermissionsContext = createContext<Set<Permission>>(new Set())
+
+export function usePermissions() {
+  const permissions = useContext(PermissionsContext)
+  return {
+    permissions,
+    can: (permission: Permission) => permissions.has(permission)
+  }
+}
@@ -0,0 +1,22 @@
+import { createContext, useContext } from 'react'
+import type { SystemSettings, SettingsActor, SettingsChange } from '../lib/settings'
+
+export interface SettingsValue {
+  settings: SystemSettings
+  loading: boolean
+  // The stored settings couldn't be loaded, so `settings` holds the defaults
+  error: boolean
+  reload: () => Promise<void>
+  // Resolves with the fields that actually changed
+  save: (settings: SystemSettings, actor: SettingsActor) => Promise<SettingsChange[]>
+}
+
+export const SettingsContext = createContext<SettingsValue | null>(null)
+
+export function useSettings() {
+  const context = useContext(SettingsContext)
+  if (!context) {
+    throw new Error('useSettings must be used within a SettingsProvider')
+  }
+  return context
+}
@@ -0,0 +1,264 @@
+import { blink } from './blink'
+import { recordAudit } from './audit'
+import type { SystemSettings } from './settings'
+
+export type RegistrationMode = SystemSettings['registrationMode']
+
+export const REGISTRATION_MODES: { value: RegistrationMode; label: string; description: string }[] = [
+  { value: 'open', label: 'Open', description: 'Anyone who signs in can use the site' },
+  { value: 'invite', label: 'Invite only', description: 'New users need an invite code or an approved request' },
+  { value: 'allowlist', label: 'Domain allowlist', description: 'Emails on the listed domains get in; everyone else needs an invite' }
+]
+
+// Records that a user was let in and how. Keyed by the user's id; once a user
+// has a grant, later changes to the registration mode don't lock them out.
+export interface AccessGrant {
+  id: string
+  userId: string
+  email: string
+  method: 'open' | 'domain' | 'invite' | 'approved'
+  inviteCode?: string | null
+  grantedBy?: string | null
+  createdAt: string
+}
+
+export interface InviteCode {
+  id: string
+  code: string
+  note: string
+  // 0 means unlimited
+  maxUses: number
+  uses: number
+  createdBy: string
+  createdAt: string
+  expiresAt?: string | null
+  revokedAt?: string | null
+}
+
+export type AccessRequestStatus = 'pending' | 'approved' | 'denied'
+
+// An entry on the waiting list, keyed by the user's id
+export interface AccessRequest {
+  id: string
+  userId: string
+  email: string
+  displayName?: string | null
+  message: string
+  status: AccessRequestStatus
+  createdAt: string
+  reviewedBy?: string | null
+  reviewedAt?: string | null
+}
+
+export interface AccessUser {
+  id: string
+  email: string
+  displayName?: string
+  role?: string
+}
+
+export type AccessStatus =
+  | { allowed: true }
+  | { allowed: false; request: AccessRequest | null }
+
+export class InviteCodeError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InviteCodeError'
+  }
+}
+
+export function parseAllowedDomains(value: string) {
+  return value
+    .split(/[\s,]+/)
+    .map(domain => domain.trim().toLowerCase().replace(/^@/, ''))
+    .filter(Boolean)
+}
+
+export function emailMatchesDomains(email: string, domains: string[]) {
+  const domain = email.split('@').pop()?.toLowerCase()
+  return !!domain && domains.includes(domain)
+}
+
+async function createGrant(user: AccessUser, method: AccessGrant['method'], extra: Partial<AccessGrant> = {}) {
+  const grant: AccessGrant = {
+    id: user.id,
+    userId: user.id,
+    email: user.email,
+    method,
+    inviteCode: null,
+    grantedBy: null,
+    createdAt: new Date().toISOString(),
+    ...extra
+  }
+  await blink.db.accessGrants.upsert(grant)
+  return grant
+}
+
+// Decides whether a signed-in user may use the app, granting access on the
+// spot when the current mode lets them in. Staff who manage users are
+// exempted by the caller.
+export async function checkAccess(user: AccessUser, settings: SystemSettings): Promise<AccessStatus> {
+  const grant = await blink.db.accessGrants.get(user.id)
+  if (grant) return { allowed: true }
+
+  if (settings.registrationMode === 'open') {
+    await createGrant(user, 'open')
+    return { allowed: true }
+  }
+  if (settings.registrationMode === 'allowlist' && emailMatchesDomains(user.email, parseAllowedDomains(settings.allowedDomains))) {
+    await createGrant(user, 'domain')
+    return { allowed: true }
+  }
+
+  const request = await blink.db.accessRequests.get(user.id) as AccessRequest | null
+  return { allowed: false, request }
+}
+
+export const normalizeInviteCode = (code: string) => code.trim().toUpperCase()
+
+export function inviteCodeState(invite: InviteCode, now = Date.now()) {
+  if (invite.revokedAt) return 'revoked'
+  if (invite.expiresAt && Date.parse(invite.expiresAt) <= now) return 'expired'
+  if (Number(invite.maxUses) > 0 && Number(invite.uses) >= Number(invite.maxUses)) return 'used up'
+  return 'active'
+}
+
+export async function redeemInviteCode(user: AccessUser, code: string) {
+  const [invite] = await blink.db.inviteCodes.list({
+    where: { code: normalizeInviteCode(code) },
+    limit: 1
+  }) as InviteCode[]
+  if (!invite) throw new InviteCodeError("That invite code doesn't exist")
+
+  const state = inviteCodeState(invite)
+  if (state !== 'active') throw new InviteCodeError(`That invite code is ${state}`)
+
+  // Claims a use in one statement so concurrent redemptions can't go past
+  // maxUses; no row changed means the code ran out, expired or was revoked
+  // since it was read
+  const claimed = await blink.db.sql(
+    `UPDATE invite_codes SET uses = uses + 1
+     WHERE id = ? AND (revoked_at IS NULL OR revoked_at = '')
+       AND (expires_at IS NULL OR expires_at = '' OR expires_at > ?)
+       AND (max_uses = 0 OR uses < max_uses)`,
+    [invite.id, new Date().toISOString()]
+  )
+  if (claimed.rowCount === 0) {
+    const current = await blink.db.inviteCodes.get(invite.id) as InviteCode | null
+    const latest = current ? inviteCodeState(current) : 'used up'
+    throw new InviteCodeError(`That invite code is ${latest === 'active' ? 'used up' : latest}`)
+  }
+  const grant = await createGrant(user, 'invite', { inviteCode: invite.code })
+  // Redeeming a code settles any open request too
+  const request = await blink.db.accessRequests.get(user.id)
+  if (request) {
+    await blink.db.accessRequests.update(user.id, { status: 'approved', reviewedAt: grant.createdAt })
+  }
+  return grant
+}
+
+export async function requestAccess(user: AccessUser, message: string): Promise<AccessRequest> {
+  const request: AccessRequest = {
+    id: user.id,
+    userId: user.id,
+    email: user.email,
+    displayName: user.displayName ?? null,
+    message: message.trim(),
+    status: 'pending',
+    createdAt: new Date().toISOString(),
+    reviewedBy: null,
+    reviewedAt: null
+  }
+  await blink.db.accessRequests.upsert(request)
+  return request
+}
+
+export async function listAccessRequests(status: AccessRequestStatus = 'pending'): Promise<AccessRequest[]> {
+  return blink.db.accessRequests.list({
+    where: { status },
+    orderBy: { createdAt: 'asc' },
+    limit: 200
+  })
+}
+
+export async function reviewAccessRequest(request: AccessRequest, approve: boolean, adminId: string) {
+  const reviewedAt = new Date().toISOString()
+  if (approve) {
+    await createGrant(
+      { id: request.userId, email: request.email },
+      'approved',
+      { grantedBy: adminId, createdAt: reviewedAt }
+    )
+  }
+  await blink.db.accessRequests.update(request.id, {
+    status: approve ? 'approved' : 'denied',
+    reviewedBy: adminId,
+    reviewedAt
+  })
+  await recordAudit({
+    action: 'access.review',
+    targetType: 'user',
+    targetId: request.userId,
+    targetLabel: request.email,
+    before: { status: request.status },
+    after: { status: approve ? 'approved' : 'denied' }
+  })
+}
+
+// Skips characters that are easy to mix up when a code is read aloud
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+const CODE_LENGTH = 8
+
+function generateCode() {
+  const bytes = crypto.getRandomValues(new Uint8Array(CODE_LENGTH))
+  return Array.from(bytes, byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('')
+}
+
+export async function createInviteCode(
+  adminId: string,
+  options: { note?: string; maxUses?: number; expiresInDays?: number | null }
+): Promise<InviteCode> {
+  const now = new Date()
+  const code = generateCode()
+  const invite: InviteCode = {
+    id: code,
+    code,
+    note: options.note?.trim() ?? '',
+    maxUses: options.maxUses ?? 1,
+    uses: 0,
+    createdBy: adminId,
+    createdAt: now.toISOString(),
+    expiresAt: options.expiresInDays
+      ? new Date(now.getTime() + options.expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+      : null,
+    revokedAt: null
+  }
+  await blink.db.inviteCodes.create(invite)
+  await recordAudit({
+    action: 'invite.create',
+    targetType: 'invite',
+    targetId: invite.id,
+    targetLabel: invite.note || invite.code,
+    after: { maxUses: invite.maxUses, expiresAt: invite.expiresAt }
+  })
+  return invite
+}
+
+export async function listInviteCodes(): Promise<InviteCode[]> {
+  return blink.db.inviteCodes.list({ orderBy: { createdAt: 'desc' }, limit: 200 })
+}
+
+export async function revokeInviteCode(invite: InviteCode) {
+  const revokedAt = new Date().toISOString()
+  await blink.db.inviteCodes.update(invite.id, { revokedAt })
+  await recordAudit({
+    action: 'invite.revoke',
+    targetType: 'invite',
+    targetId: invite.id,
+    targetLabel: invite.note || invite.code,
+    before: { revokedAt: null, uses: invite.uses },
+    after: { revokedAt }
+  })
+  return revokedAt
+}
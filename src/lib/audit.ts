@@ -0,0 +1,163 @@
+import { blink } from './blink'
+import { createId } from './utils'
+
+export const AUDIT_ACTIONS = {
+  'user.role': 'Changed role',
+  'user.status': 'Changed status',
+  'user.quota': 'Changed quota',
+  'settings.update': 'Updated settings',
+  'role.create': 'Created role',
+  'role.update': 'Edited role',
+  'role.delete': 'Deleted role',
+  'invite.create': 'Created invite',
+  'invite.revoke': 'Revoked invite',
+  'access.review': 'Reviewed access request',
+  'image.trash': 'Moved image to trash',
+  'image.restore': 'Restored image',
+  'image.purge': 'Deleted image',
+  'image.expire': 'Purged expired image',
+  'image.moderate': 'Moderated image',
+  'policy.create': 'Added policy rule',
+  'policy.update': 'Edited policy rule',
+  'policy.delete': 'Deleted policy rule',
+  'report.resolve': 'Resolved report'
+} as const
+
+export type AuditAction = keyof typeof AUDIT_ACTIONS
+
+// One privileged action. Entries are only ever created; nothing in the app
+// updates or deletes them.
+export interface AuditEntry {
+  id: string
+  actorId: string
+  actorEmail: string
+  action: AuditAction
+  targetType: string
+  targetId: string
+  // Human-readable name for the target, e.g. a user's email
+  targetLabel: string
+  before: string // JSON, or '' when there was nothing before
+  after: string // JSON, or '' when nothing is left after
+  createdAt: string
+}
+
+export interface AuditEvent {
+  action: AuditAction
+  targetType: string
+  targetId: string
+  targetLabel?: string
+  before?: unknown
+  after?: unknown
+}
+
+const serialize = (value: unknown) => value === undefined || value === null ? '' : JSON.stringify(value)
+
+// Appends entries for the signed-in user. The action has already happened by
+// the time this runs, so a failed write is logged rather than thrown.
+export async function recordAudit(events: AuditEvent | AuditEvent[]) {
+  const list = Array.isArray(events) ? events : [events]
+  if (list.length === 0) return
+
+  try {
+    const actor = await blink.auth.me()
+    const createdAt = new Date().toISOString()
+    await blink.db.auditLog.createMany(list.map(event => ({
+      id: createId('audit'),
+      actorId: actor.id,
+      actorEmail: actor.email,
+      action: event.action,
+      targetType: event.targetType,
+      targetId: event.targetId,
+      targetLabel: event.targetLabel ?? event.targetId,
+      before: serialize(event.before),
+      after: serialize(event.after),
+      createdAt
+    })))
+  } catch (error) {
+    console.error('Failed to write audit log:', error)
+  }
+}
+
+export interface AuditQuery {
+  action?: AuditAction
+  actor?: string
+  target?: string
+  // Inclusive ISO bounds
+  from?: string
+  to?: string
+}
+
+export const AUDIT_PAGE_SIZE = 50
+// Upper bound for exports, which aren't paginated
+export const AUDIT_EXPORT_LIMIT = 5000
+
+function buildAuditFilters(query: AuditQuery) {
+  const filters: Record<string, unknown>[] = []
+  if (query.action) filters.push({ action: query.action })
+  if (query.actor) filters.push({ actorEmail: { ilike: `%${query.actor}%` } })
+  if (query.target) {
+    filters.push({
+      OR: [
+        { targetLabel: { ilike: `%${query.target}%` } },
+        { targetId: query.target }
+      ]
+    })
+  }
+  if (query.from) filters.push({ createdAt: { gte: query.from } })
+  if (query.to) filters.push({ createdAt: { lte: query.to } })
+  return filters
+}
+
+// Newest first. Pages continue after the last entry of the previous page by
+// (createdAt, id), so entries written while browsing don't shift the pages.
+export async function listAuditEntries(
+  query: AuditQuery,
+  limit = AUDIT_PAGE_SIZE,
+  after: AuditEntry | null = null
+): Promise<AuditEntry[]> {
+  const filters = buildAuditFilters(query)
+  if (after) {
+    filters.push({
+      OR: [
+        { createdAt: { lt: after.createdAt } },
+        { AND: [{ createdAt: after.createdAt }, { id: { lt: after.id } }] }
+      ]
+    })
+  }
+  return blink.db.auditLog.list({
+    where: filters.length > 0 ? { AND: filters } : undefined,
+    orderBy: { createdAt: 'desc', id: 'desc' },
+    limit
+  })
+}
+
+export function parseAuditValue(value: string): unknown {
+  if (!value) return null
+  try {
+    return JSON.parse(value)
+  } catch {
+    return value
+  }
+}
+
+const csvCell = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+
+export function auditToCsv(entries: AuditEntry[]) {
+  const columns: (keyof AuditEntry)[] = [
+    'createdAt', 'actorEmail', 'actorId', 'action', 'targetType', 'targetId', 'targetLabel', 'before', 'after'
+  ]
+  const rows = entries.map(entry => columns.map(column => csvCell(String(entry[column] ?? ''))).join(','))
+  return [columns.join(','), ...rows].join('\n')
+}
+
+export function auditToJson(entries: AuditEntry[]) {
+  return JSON.stringify(
+    entries.map(entry => ({
+      ...entry,
+      before: parseAuditValue(entry.before),
+      after: parseAuditValue(entry.after)
+    })),
+    null,
+    2
+  )
+}
@@ -0,0 +1,170 @@
+import { blink } from './blink'
+import { createId } from './utils'
+import { buildImageFilters, type GeneratedImage, type ImageQuery } from './images'
+
+export interface Collection {
+  id: string
+  userId: string
+  name: string
+  coverImageId?: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+// One image's membership in a collection; position drives the album order
+export interface CollectionItem {
+  id: string
+  collectionId: string
+  imageId: string
+  userId: string
+  position: number
+  createdAt: string
+}
+
+export interface CollectionSummary extends Collection {
+  imageCount: number
+  coverUrl: string | null
+}
+
+export async function listCollections(userId: string): Promise<CollectionSummary[]> {
+  const collections: Collection[] = await blink.db.collections.list({
+    where: { userId },
+    orderBy: { name: 'asc' }
+  })
+  if (collections.length === 0) return []
+
+  const items: CollectionItem[] = await blink.db.collectionItems.list({
+    where: { collectionId: { in: collections.map(c => c.id) } },
+    orderBy: { position: 'asc' }
+  })
+
+  // An explicit cover wins; otherwise the first image in album order
+  const coverIds = collections
+    .map(c => c.coverImageId || items.find(item => item.collectionId === c.id)?.imageId)
+    .filter((id): id is string => !!id)
+  const covers: GeneratedImage[] = coverIds.length > 0
+    ? await blink.db.generatedImages.list({ where: { id: { in: coverIds } } })
+    : []
+
+  return collections.map(collection => {
+    const members = items.filter(item => item.collectionId === collection.id)
+    const coverId = collection.coverImageId || members[0]?.imageId
+    return {
+      ...collection,
+      imageCount: members.length,
+      coverUrl: covers.find(image => image.id === coverId)?.url || null
+    }
+  })
+}
+
+export async function createCollection(userId: string, name: string): Promise<Collection> {
+  const now = new Date().toISOString()
+  const collection: Collection = {
+    id: createId('col'),
+    userId,
+    name: name.trim(),
+    coverImageId: null,
+    createdAt: now,
+    updatedAt: now
+  }
+  await blink.db.collections.create(collection)
+  return collection
+}
+
+export async function updateCollection(collectionId: string, changes: Partial<Pick<Collection, 'name' | 'coverImageId'>>) {
+  await blink.db.collections.update(collectionId, {
+    ...changes,
+    updatedAt: new Date().toISOString()
+  })
+}
+
+export async function deleteCollection(collectionId: string) {
+  await blink.db.collectionItems.deleteMany({ where: { collectionId } })
+  await blink.db.collections.delete(collectionId)
+}
+
+export async function listCollectionItems(collectionId: string): Promise<CollectionItem[]> {
+  return blink.db.collectionItems.list({
+    where: { collectionId },
+    orderBy: { position: 'asc' }
+  })
+}
+
+// Appends images to the end of the album, skipping ones already in it.
+// Returns how many were actually added.
+export async function addImagesToCollection(userId: string, collectionId: string, imageIds: string[]) {
+  const existing = await listCollectionItems(collectionId)
+  const existingIds = new Set(existing.map(item => item.imageId))
+  const nextPosition = existing.length > 0 ? existing[existing.length - 1].position + 1 : 0
+  const now = new Date().toISOString()
+
+  const newItems: CollectionItem[] = imageIds
+    .filter(imageId => !existingIds.has(imageId))
+    .map((imageId, index) => ({
+      id: createId('colitem'),
+      collectionId,
+      imageId,
+      userId,
+      position: nextPosition + index,
+      createdAt: now
+    }))
+
+  if (newItems.length > 0) {
+    await blink.db.collectionItems.createMany(newItems)
+  }
+  return newItems.length
+}
+
+export async function removeImagesFromCollection(collectionId: string, imageIds: string[]) {
+  await blink.db.collectionItems.deleteMany({
+    where: { AND: [{ collectionId }, { imageId: { in: imageIds } }] }
+  })
+}
+
+// Renumbers the album to match orderedImageIds, writing only the rows that
+// moved. orderedImageIds only holds the images on screen; members that are
+// filtered out or in the trash keep their slots, and every item is renumbered
+// so they don't collide with the new positions once they show up again.
+export async function reorderCollection(items: CollectionItem[], orderedImageIds: string[]) {
+  const visible = new Set(orderedImageIds)
+  const byImageId = new Map(items.map(item => [item.imageId, item]))
+  const moved = orderedImageIds
+    .map(imageId => byImageId.get(imageId))
+    .filter((item): item is CollectionItem => !!item)
+
+  const reordered = [...items]
+    .sort((a, b) => a.position - b.position)
+    .map(item => visible.has(item.imageId) ? moved.shift() ?? item : item)
+    .map((item, position) => ({ ...item, position }))
+
+  const updates = reordered
+    .filter(item => items.find(i => i.id === item.id)?.position !== item.position)
+    .map(item => ({ id: item.id, position: item.position }))
+
+  if (updates.length > 0) {
+    await blink.db.collectionItems.updateMany(updates)
+  }
+  return reordered
+}
+
+// Albums are shown whole and in their own order rather than paged by date,
+// so this loads every member that matches the current filters.
+export async function listCollectionImages(
+  userId: string,
+  items: CollectionItem[],
+  query: ImageQuery
+): Promise<GeneratedImage[]> {
+  if (items.length === 0) return []
+
+  const filters = [
+    ...buildImageFilters(userId, query),
+    { id: { in: items.map(item => item.imageId) } }
+  ]
+
+  const images: GeneratedImage[] = await blink.db.generatedImages.list({
+    where: { AND: filters },
+    limit: items.length
+  })
+  const positions = new Map(items.map(item => [item.imageId, item.position]))
+  return images.sort((a, b) => (positions.get(a.id) ?? 0) - (positions.get(b.id) ?? 0))
+}
@@ -0,0 +1,54 @@
+import { zipSync, type Zippable } from 'fflate'
+import type { GeneratedImage } from './images'
+
+export const imageFileName = (prompt: string) =>
+  `ai-generated-${prompt.slice(0, 30).replace(/[^a-zA-Z0-9]/g, '-')}`
+
+export function saveBlob(blob: Blob, filename: string) {
+  const url = window.URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  window.URL.revokeObjectURL(url)
+  document.body.removeChild(a)
+}
+
+export async function downloadImage(image: GeneratedImage) {
+  const response = await fetch(image.url)
+  saveBlob(await response.blob(), `${imageFileName(image.prompt)}.png`)
+}
+
+// Fetches the images one at a time so a large selection doesn't flood the
+// network, then bundles them into a single archive. Every file is held in
+// memory until the archive is built. PNGs are already compressed, so entries are stored as-is.
+// Returns how many images could not be fetched.
+export async function downloadImagesAsZip(
+  images: GeneratedImage[],
+  onProgress?: (done: number, total: number) => void
+) {
+  const files: Zippable = {}
+  let failed = 0
+
+  for (const [index, image] of images.entries()) {
+    try {
+      const response = await fetch(image.url)
+      if (!response.ok) throw new Error(`HTTP ${response.status}`)
+      const data = new Uint8Array(await response.arrayBuffer())
+      // Prefix with the position so identical prompts don't collide
+      const name = `${String(index + 1).padStart(3, '0')}-${imageFileName(image.prompt)}.png`
+      files[name] = [data, { level: 0 }]
+    } catch (error) {
+      console.error(`Failed to fetch ${image.id}:`, error)
+      failed++
+    }
+    onProgress?.(index + 1, images.length)
+  }
+
+  if (Object.keys(files).length === 0) throw new Error('No images could be downloaded')
+
+  const archive = zipSync(files)
+  saveBlob(new Blob([archive], { type: 'application/zip' }), `ai-images-${new Date().toISOString().slice(0, 10)}.zip`)
+  return failed
+}
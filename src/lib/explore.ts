@@ -0,0 +1,88 @@
+import { blink } from './blink'
+import { assertShareable } from './share-links'
+import type { GeneratedImage } from './images'
+
+export type ExploreSort = 'newest' | 'popular'
+
+export const EXPLORE_PAGE_SIZE = 24
+
+// One user's like of one image, keyed so a user can only like an image once
+export interface ImageLike {
+  id: string
+  imageId: string
+  userId: string
+  createdAt: string
+}
+
+export interface Creator {
+  id: string
+  displayName: string
+}
+
+const likeId = (imageId: string, userId: string) => `${imageId}_${userId}`
+
+export const isPublished = (image: GeneratedImage) => Number(image.published) === 1
+
+// Publishing follows the same rules as sharing: hidden, removed and trashed
+// images stay private
+export async function setImagePublished(image: GeneratedImage, published: boolean): Promise<GeneratedImage> {
+  if (published) assertShareable(image)
+  const patch: Partial<GeneratedImage> = {
+    published: published ? 1 : 0,
+    publishedAt: published ? image.publishedAt || new Date().toISOString() : null,
+    // Never null, so unliked images sort last rather than first
+    likeCount: Number(image.likeCount) || 0
+  }
+  await blink.db.generatedImages.update(image.id, patch)
+  return { ...image, ...patch }
+}
+
+// Published images from every user, minus anything trashed or taken down by
+// a moderator
+export async function listExploreFeed(sort: ExploreSort, offset = 0): Promise<GeneratedImage[]> {
+  return blink.db.generatedImages.list({
+    where: {
+      AND: [
+        { published: 1 },
+        { deletedAt: { is: null } },
+        { removedAt: { is: null } },
+        { OR: [{ moderationStatus: { in: ['pending', 'approved'] } }, { moderationStatus: { is: null } }] }
+      ]
+    },
+    orderBy: sort === 'popular' ? { likeCount: 'desc', publishedAt: 'desc' } : { publishedAt: 'desc' },
+    limit: EXPLORE_PAGE_SIZE,
+    offset
+  })
+}
+
+// Display names only; emails are never shown on the feed
+export async function listCreators(userIds: string[]): Promise<Record<string, Creator>> {
+  if (userIds.length === 0) return {}
+  const users: Array<{ id: string; displayName?: string | null }> = await blink.db.users.list({
+    where: { id: { in: [...new Set(userIds)] } }
+  })
+  return Object.fromEntries(users.map(user => [user.id, { id: user.id, displayName: user.displayName || 'Anonymous' }]))
+}
+
+export async function listLikedImageIds(userId: string, imageIds: string[]): Promise<Set<string>> {
+  if (imageIds.length === 0) return new Set()
+  const likes: ImageLike[] = await blink.db.imageLikes.list({
+    where: { userId, imageId: { in: imageIds } }
+  })
+  return new Set(likes.map(like => like.imageId))
+}
+
+// Stores the like and refreshes the image's cached count from the likes
+// table, so concurrent likes can't drift the count. Returns the new count.
+export async function setImageLiked(image: GeneratedImage, userId: string, liked: boolean): Promise<number> {
+  const id = likeId(image.id, userId)
+  if (liked) {
+    await blink.db.imageLikes.upsert({ id, imageId: image.id, userId, createdAt: new Date().toISOString() })
+  } else {
+    await blink.db.imageLikes.delete(id)
+  }
+
+  const likeCount: number = await blink.db.imageLikes.count({ where: { imageId: image.id } })
+  await blink.db.generatedImages.update(image.id, { likeCount })
+  return likeCount
+}
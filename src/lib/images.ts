@@ -0,0 +1,347 @@
+import { blink } from './blink'
+import { recordAudit } from './audit'
+
+export interface GeneratedImage {
+  id: string
+  userId: string
+  batchId?: string | null
+  url: string
+  prompt: string
+  size: string
+  quality: string
+  style?: string | null
+  parentId?: string | null
+  generationParams?: string | null
+  // 1 when starred; the table stores flags as integers
+  favorite?: number | null
+  // 1–5 stars, 0 when unrated
+  rating?: number | null
+  // JSON array of lowercase tags
+  tags?: string | null
+  // Set while the image sits in the trash
+  deletedAt?: string | null
+  // See lib/moderation; images from before moderation have no status
+  moderationStatus?: 'pending' | 'approved' | 'hidden' | 'removed' | null
+  moderationReason?: string | null
+  moderatedBy?: string | null
+  moderatedAt?: string | null
+  // Set when a moderator takes the image down; it then leaves the owner's library
+  removedAt?: string | null
+  // 1 when the owner has published it to the explore feed; see lib/explore
+  published?: number | null
+  publishedAt?: string | null
+  likeCount?: number | null
+  createdAt: string
+}
+
+export interface GenerationError {
+  attempt: number
+  message: string
+  at: string
+}
+
+// Everything needed to explain and reproduce an image. Stored as JSON in the
+// image's generationParams column.
+export interface GenerationRecord {
+  jobId: string
+  prompt: string
+  size: string
+  quality: string
+  style: string
+  n: number
+  revisedPrompt: string | null
+  requestedAt: string
+  durationMs: number
+  attempts: number
+  errors: GenerationError[]
+  sdkVersion: string
+}
+
+export function parseGenerationRecord(image: GeneratedImage): GenerationRecord | null {
+  if (!image.generationParams) return null
+  try {
+    return JSON.parse(image.generationParams)
+  } catch {
+    return null
+  }
+}
+
+export const MAX_RATING = 5
+export const MAX_TAG_LENGTH = 32
+
+export const isFavorite = (image: GeneratedImage) => Number(image.favorite) > 0
+
+export function parseTags(image: GeneratedImage): string[] {
+  if (!image.tags) return []
+  try {
+    const tags = JSON.parse(image.tags)
+    return Array.isArray(tags) ? tags : []
+  } catch {
+    return []
+  }
+}
+
+export const normalizeTag = (tag: string) =>
+  tag.trim().toLowerCase().replace(/\s+/g, '-').slice(0, MAX_TAG_LENGTH)
+
+export interface ImageAnnotations {
+  favorite?: boolean
+  rating?: number
+  tags?: string[]
+}
+
+// Persists favorite/rating/tag edits and returns the image as stored
+export async function annotateImage(image: GeneratedImage, changes: ImageAnnotations): Promise<GeneratedImage> {
+  const patch: Partial<GeneratedImage> = {}
+  if (changes.favorite !== undefined) patch.favorite = changes.favorite ? 1 : 0
+  if (changes.rating !== undefined) patch.rating = Math.max(0, Math.min(MAX_RATING, Math.round(changes.rating)))
+  if (changes.tags !== undefined) {
+    patch.tags = JSON.stringify([...new Set(changes.tags.map(normalizeTag).filter(Boolean))])
+  }
+
+  await blink.db.generatedImages.update(image.id, patch)
+  return { ...image, ...patch }
+}
+
+// Adds one tag to every image, leaving images that already have it untouched
+export async function tagImages(images: GeneratedImage[], tag: string): Promise<GeneratedImage[]> {
+  const normalized = normalizeTag(tag)
+  if (!normalized) return images
+  const untagged = images.filter(image => !parseTags(image).includes(normalized))
+  if (untagged.length === 0) return images
+
+  const updates = untagged.map(image => ({
+    id: image.id,
+    tags: JSON.stringify([...parseTags(image), normalized])
+  }))
+  await blink.db.generatedImages.updateMany(updates)
+  return images.map(image => {
+    const update = updates.find(u => u.id === image.id)
+    return update ? { ...image, tags: update.tags } : image
+  })
+}
+
+export type ImageSort = 'newest' | 'oldest' | 'rating'
+
+export interface ImageQuery {
+  search?: string
+  size?: string
+  quality?: string
+  favoritesOnly?: boolean
+  minRating?: number
+  tag?: string
+  sort?: ImageSort
+}
+
+export interface ImagePage {
+  images: GeneratedImage[]
+  nextCursor: string | null
+}
+
+export const GALLERY_PAGE_SIZE = 24
+
+export const buildImageFilters = (userId: string, query: ImageQuery) => {
+  const filters: Record<string, unknown>[] = [{ userId }, { deletedAt: { is: null } }, { removedAt: { is: null } }]
+  if (query.search?.trim()) filters.push({ prompt: { like: `%${query.search.trim()}%` } })
+  if (query.size) filters.push({ size: query.size })
+  if (query.quality) filters.push({ quality: query.quality })
+  if (query.favoritesOnly) filters.push({ favorite: 1 })
+  if (query.minRating) filters.push({ rating: { gte: query.minRating } })
+  if (query.tag) filters.push({ tags: { like: `%"${normalizeTag(query.tag)}"%` } })
+  return filters
+}
+
+type SortKey = 'rating' | 'createdAt' | 'id'
+
+const SORT_KEYS: Record<ImageSort, { keys: SortKey[]; direction: 'asc' | 'desc' }> = {
+  newest: { keys: ['createdAt', 'id'], direction: 'desc' },
+  oldest: { keys: ['createdAt', 'id'], direction: 'asc' },
+  rating: { keys: ['rating', 'createdAt', 'id'], direction: 'desc' }
+}
+
+// Images from before ratings existed have a NULL rating. The database sorts
+// NULL below every number, so the cursor keeps it as its own value rather
+// than folding it into 0, which would skip those rows after the first page.
+const NULL_CURSOR_VALUE = 'null'
+
+const sortValue = (image: GeneratedImage, key: SortKey) =>
+  key === 'rating' ? (image.rating == null ? NULL_CURSOR_VALUE : String(image.rating)) : image[key]
+
+const parseSortValue = (key: SortKey, value: string) =>
+  key === 'rating' ? (value === NULL_CURSOR_VALUE ? null : Number(value)) : value
+
+const equalsSortValue = (key: SortKey, value: string | number | null) =>
+  value === null ? { [key]: { is: null } } : { [key]: value }
+
+// Rows strictly after value in the sort direction, or null when none can be.
+// Ratings are only sorted highest first, so NULL comes last.
+const pastSortValue = (key: SortKey, value: string | number | null, direction: 'asc' | 'desc') => {
+  if (key === 'rating') {
+    return value === null ? null : { OR: [{ rating: { lt: value } }, { rating: { is: null } }] }
+  }
+  return { [key]: { [direction === 'desc' ? 'lt' : 'gt']: value } }
+}
+
+// Keyset pagination over the sort keys, ending in (createdAt, id). Batch
+// variants share a createdAt, so the id tie-break keeps them from being
+// skipped between pages. The cursor is the last row of the previous page as
+// its sort values joined by "|".
+export async function listUserImages(
+  userId: string,
+  query: ImageQuery,
+  cursor: string | null
+): Promise<ImagePage> {
+  const { keys, direction } = SORT_KEYS[query.sort || 'newest']
+  const filters = buildImageFilters(userId, query)
+  if (cursor) {
+    const values = cursor.split('|').map((value, i) => parseSortValue(keys[i], value))
+    filters.push({
+      OR: keys
+        .map((key, i) => {
+          const past = pastSortValue(key, values[i], direction)
+          return past && {
+            AND: [...keys.slice(0, i).map((prev, j) => equalsSortValue(prev, values[j])), past]
+          }
+        })
+        .filter(Boolean)
+    })
+  }
+
+  const rows: GeneratedImage[] = await blink.db.generatedImages.list({
+    where: { AND: filters },
+    orderBy: Object.fromEntries(keys.map(key => [key, direction])),
+    limit: GALLERY_PAGE_SIZE + 1
+  })
+
+  const images = rows.slice(0, GALLERY_PAGE_SIZE)
+  const last = images[images.length - 1]
+  return {
+    images,
+    nextCursor: rows.length > GALLERY_PAGE_SIZE && last
+      ? keys.map(key => sortValue(last, key)).join('|')
+      : null
+  }
+}
+
+export async function countUserImages(userId: string, query: ImageQuery): Promise<number> {
+  return blink.db.generatedImages.count({
+    where: { AND: buildImageFilters(userId, query) }
+  })
+}
+
+export async function getImage(imageId: string): Promise<GeneratedImage | null> {
+  return blink.db.generatedImages.get(imageId)
+}
+
+export interface LineageNode {
+  image: GeneratedImage
+  children: LineageNode[]
+}
+
+export interface Lineage {
+  ancestors: GeneratedImage[]
+  descendants: LineageNode[]
+}
+
+const MAX_LINEAGE_DEPTH = 10
+
+// Walks parentId links up to the root and down through every remix, a level
+// at a time, so the tree can be browsed from any image in it.
+export async function loadLineage(image: GeneratedImage): Promise<Lineage> {
+  const ancestors: GeneratedImage[] = []
+  let parentId = image.parentId
+  while (parentId && ancestors.length < MAX_LINEAGE_DEPTH) {
+    const parent = await getImage(parentId)
+    if (!parent) break
+    ancestors.unshift(parent)
+    parentId = parent.parentId
+  }
+
+  const nodes = new Map<string, LineageNode>([[image.id, { image, children: [] }]])
+  let level = [image.id]
+  for (let depth = 0; depth < MAX_LINEAGE_DEPTH && level.length > 0; depth++) {
+    const children: GeneratedImage[] = await blink.db.generatedImages.list({
+      where: { parentId: { in: level }, userId: image.userId, deletedAt: { is: null }, removedAt: { is: null } },
+      orderBy: { createdAt: 'asc' }
+    })
+    children.forEach(child => {
+      const node: LineageNode = { image: child, children: [] }
+      nodes.set(child.id, node)
+      nodes.get(child.parentId!)?.children.push(node)
+    })
+    level = children.map(child => child.id)
+  }
+
+  return { ancestors, descendants: nodes.get(image.id)!.children }
+}
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// When a trashed image becomes eligible for purging
+export const purgeDate = (image: GeneratedImage, retentionDays: number) =>
+  new Date(new Date(image.deletedAt!).getTime() + retentionDays * DAY_MS)
+
+export async function trashImages(imageIds: string[]) {
+  const deletedAt = new Date().toISOString()
+  await blink.db.generatedImages.updateMany(imageIds.map(id => ({ id, deletedAt })))
+  await recordAudit(imageIds.map(id => ({
+    action: 'image.trash' as const,
+    targetType: 'image',
+    targetId: id,
+    before: { deletedAt: null },
+    after: { deletedAt }
+  })))
+}
+
+export async function restoreImages(imageIds: string[]) {
+  await blink.db.generatedImages.updateMany(imageIds.map(id => ({ id, deletedAt: null })))
+  await recordAudit(imageIds.map(id => ({
+    action: 'image.restore' as const,
+    targetType: 'image',
+    targetId: id,
+    after: { deletedAt: null }
+  })))
+}
+
+export async function listTrashedImages(userId: string): Promise<GeneratedImage[]> {
+  return blink.db.generatedImages.list({
+    // Any timestamp sorts after '', so this matches every non-null deletedAt
+    where: { userId, deletedAt: { gt: '' }, removedAt: { is: null } },
+    orderBy: { deletedAt: 'desc' }
+  })
+}
+
+// Permanently removes images along with everything that points at them:
+// collection memberships, share links, reports and likes
+export async function purgeImages(imageIds: string[], action: 'image.purge' | 'image.expire' = 'image.purge') {
+  if (imageIds.length === 0) return
+  const byImage = { where: { imageId: { in: imageIds } } }
+  await blink.db.collectionItems.deleteMany(byImage)
+  await blink.db.shareLinks.deleteMany(byImage)
+  await blink.db.imageReports.deleteMany(byImage)
+  await blink.db.imageLikes.deleteMany(byImage)
+  await blink.db.generatedImages.deleteMany({ where: { id: { in: imageIds } } })
+  await recordAudit(imageIds.map(id => ({ action, targetType: 'image', targetId: id })))
+}
+
+const PURGE_BATCH_SIZE = 500
+
+// Purges trashed images that have outlived the retention period, for one user
+// or, with a null userId, everyone. There is no background worker, so this
+// runs whenever the trash or the admin dashboard is opened.
+export async function purgeExpiredTrash(userId: string | null, retentionDays: number) {
+  const cutoff = new Date(Date.now() - retentionDays * DAY_MS).toISOString()
+  let purged = 0
+  for (;;) {
+    const expired: GeneratedImage[] = await blink.db.generatedImages.list({
+      where: { ...(userId ? { userId } : {}), deletedAt: { lt: cutoff } },
+      select: ['id'],
+      limit: PURGE_BATCH_SIZE
+    })
+    await purgeImages(expired.map(image => image.id), 'image.expire')
+    purged += expired.length
+    if (expired.length < PURGE_BATCH_SIZE) return purged
+  }
+}
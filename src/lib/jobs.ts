@@ -0,0 +1,230 @@
+import { blink } from './blink'
+import { createId } from './utils'
+import { parseGenerationRecord, type GeneratedImage, type GenerationError, type GenerationRecord } from './images'
+import { recordGeneration } from './metrics'
+import { REVIEW_HOLD_REASON, type PolicyMatch, type PolicySeverity, type PolicyVerdict } from './policy'
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled'
+
+export interface GenerationJob {
+  id: string
+  userId: string
+  prompt: string
+  size: string
+  quality: string
+  style: string
+  n: number
+  parentId?: string | null
+  status: JobStatus
+  attempts: number
+  error?: string | null
+  errorLog?: string | null
+  batchId?: string | null
+  pickedImageId?: string | null
+  // The content policy verdict the prompt was queued under
+  policySeverity?: PolicySeverity | null
+  policyMatches?: string | null // JSON PolicyMatch[]
+  createdAt: string
+  startedAt?: string | null
+  completedAt?: string | null
+}
+
+export interface GenerationParams {
+  prompt: string
+  size: string
+  quality: string
+  style: string
+  n: number
+  parentId?: string | null
+}
+
+export const MAX_BATCH_SIZE = 4
+
+export const isActiveJob = (job: GenerationJob) =>
+  job.status === 'queued' || job.status === 'running'
+
+// errorLog is a JSON array of every failed attempt, kept across retries
+export function parseErrorLog(job: GenerationJob): GenerationError[] {
+  if (!job.errorLog) return []
+  try {
+    return JSON.parse(job.errorLog)
+  } catch {
+    return []
+  }
+}
+
+export function appendErrorLog(job: GenerationJob, message: string) {
+  return JSON.stringify([
+    ...parseErrorLog(job),
+    { attempt: job.attempts, message, at: new Date().toISOString() }
+  ])
+}
+
+const SIZES = ['1024x1024', '1792x1024', '1024x1792']
+const QUALITIES = ['auto', 'low', 'medium', 'high']
+const STYLES = ['natural', 'vivid']
+
+// Generator form state travels in the URL so a set of parameters can be
+// linked, replayed from the Gallery and reproduced later.
+export function readGeneratorSearch(search: URLSearchParams): Partial<GenerationParams> {
+  const params: Partial<GenerationParams> = {}
+  const prompt = search.get('prompt')
+  const size = search.get('size')
+  const quality = search.get('quality')
+  const style = search.get('style')
+  const n = parseInt(search.get('n') || '')
+  const parentId = search.get('parent')
+
+  if (prompt) params.prompt = prompt
+  if (size && SIZES.includes(size)) params.size = size
+  if (quality && QUALITIES.includes(quality)) params.quality = quality
+  if (style && STYLES.includes(style)) params.style = style
+  if (n >= 1 && n <= MAX_BATCH_SIZE) params.n = n
+  if (parentId) params.parentId = parentId
+  return params
+}
+
+export function toGeneratorSearch(params: GenerationParams) {
+  const search = new URLSearchParams({
+    prompt: params.prompt,
+    size: params.size,
+    quality: params.quality,
+    style: params.style,
+    n: String(params.n)
+  })
+  if (params.parentId) search.set('parent', params.parentId)
+  return search.toString()
+}
+
+// The parameters an image was generated with, falling back to its columns for
+// images created before provenance records existed
+export function paramsFromImage(image: GeneratedImage): GenerationParams {
+  const record = parseGenerationRecord(image)
+  return {
+    prompt: record?.prompt ?? image.prompt,
+    size: record?.size ?? image.size,
+    quality: record?.quality ?? image.quality,
+    style: record?.style ?? image.style ?? 'natural',
+    n: record?.n ?? 1
+  }
+}
+
+export function parsePolicyMatches(job: GenerationJob): PolicyMatch[] {
+  if (!job.policyMatches) return []
+  try {
+    return JSON.parse(job.policyMatches)
+  } catch {
+    return []
+  }
+}
+
+export async function listJobs(userId: string): Promise<GenerationJob[]> {
+  return blink.db.generationJobs.list({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+    limit: 50
+  })
+}
+
+export async function createJob(
+  userId: string,
+  params: GenerationParams,
+  verdict?: PolicyVerdict
+): Promise<GenerationJob> {
+  const job: GenerationJob = {
+    id: createId('job'),
+    userId,
+    ...params,
+    status: 'queued',
+    attempts: 0,
+    policySeverity: verdict?.severity ?? null,
+    policyMatches: verdict?.matches.length ? JSON.stringify(verdict.matches) : null,
+    createdAt: new Date().toISOString()
+  }
+  await blink.db.generationJobs.create(job)
+  return job
+}
+
+export async function updateJob(id: string, changes: Partial<GenerationJob>) {
+  await blink.db.generationJobs.update(id, changes)
+}
+
+export async function listJobImages(jobs: GenerationJob[]): Promise<GeneratedImage[]> {
+  const batchIds = jobs.map(job => job.batchId).filter((id): id is string => !!id)
+  if (batchIds.length === 0) return []
+
+  return blink.db.generatedImages.list({
+    where: { batchId: { in: batchIds }, deletedAt: { is: null }, removedAt: { is: null } },
+    orderBy: { createdAt: 'desc' }
+  })
+}
+
+// Calls the image model for a job and stores every returned variant under one
+// batch id, each with a full provenance record. The signal is checked again
+// before saving so a job cancelled mid-request never produces images. Prompts
+// that need review produce hidden images for a moderator to release.
+export async function runJob(job: GenerationJob, signal: AbortSignal): Promise<GeneratedImage[]> {
+  const requestedAt = new Date()
+  const { data } = await blink.ai.generateImage({
+    prompt: job.prompt,
+    size: job.size as '1024x1024' | '1792x1024' | '1024x1792',
+    quality: job.quality as 'auto' | 'low' | 'medium' | 'high',
+    style: job.style as 'vivid' | 'natural',
+    n: Math.min(Math.max(job.n || 1, 1), MAX_BATCH_SIZE),
+    signal
+  })
+
+  const durationMs = Date.now() - requestedAt.getTime()
+
+  // The model may rewrite the prompt; the SDK passes that through untyped
+  const results = (data || []) as Array<{ url?: string; revised_prompt?: string }>
+  const variants = results.filter(item => !!item.url)
+  if (variants.length === 0) {
+    throw new Error('No image data received')
+  }
+  signal.throwIfAborted()
+
+  const batchId = createId('batch')
+  const createdAt = new Date().toISOString()
+  const heldForReview = job.policySeverity === 'review'
+  const images: GeneratedImage[] = variants.map(item => {
+    const record: GenerationRecord = {
+      jobId: job.id,
+      prompt: job.prompt,
+      size: job.size,
+      quality: job.quality,
+      style: job.style,
+      n: job.n,
+      revisedPrompt: item.revised_prompt || null,
+      requestedAt: requestedAt.toISOString(),
+      durationMs,
+      attempts: job.attempts,
+      errors: parseErrorLog(job),
+      sdkVersion: __BLINK_SDK_VERSION__
+    }
+
+    return {
+      id: createId('img'),
+      userId: job.userId,
+      batchId,
+      url: item.url!,
+      prompt: job.prompt,
+      size: job.size,
+      quality: job.quality,
+      style: job.style,
+      parentId: job.parentId || null,
+      generationParams: JSON.stringify(record),
+      favorite: 0,
+      rating: 0,
+      tags: '[]',
+      deletedAt: null,
+      moderationStatus: heldForReview ? 'hidden' : 'pending',
+      moderationReason: heldForReview ? REVIEW_HOLD_REASON : null,
+      removedAt: null,
+      createdAt
+    }
+  })
+  await blink.db.generatedImages.createMany(images)
+  await recordGeneration(job.userId, images)
+  return images
+}
@@ -0,0 +1,31 @@
+import { loadSettings, type SystemSettings } from './settings'
+
+export class MaintenanceError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MaintenanceError'
+  }
+}
+
+// Maintenance ends on its own once the scheduled end time passes, so a
+// forgotten toggle can't lock users out indefinitely
+export function isMaintenanceActive(settings: SystemSettings, now = Date.now()) {
+  if (!settings.maintenanceMode) return false
+  if (!settings.maintenanceEndsAt) return true
+  return Date.parse(settings.maintenanceEndsAt) > now
+}
+
+export function maintenanceEndDate(settings: SystemSettings) {
+  return settings.maintenanceEndsAt ? new Date(settings.maintenanceEndsAt) : null
+}
+
+// Reads the stored settings rather than the copy loaded at startup, so
+// generation stops as soon as an admin turns maintenance on. Those who can
+// edit settings are exempt so they can check the site before reopening it.
+export async function assertNotInMaintenance(exempt: boolean) {
+  if (exempt) return
+  const settings = await loadSettings()
+  if (isMaintenanceActive(settings)) {
+    throw new MaintenanceError('Image generation is paused while the site is under maintenance')
+  }
+}
@@ -0,0 +1,531 @@
+import { blink } from './blink'
+import type { GeneratedImage } from './images'
+
+// Rollups for the admin pages. Counters are bumped as users sign up and
+// images are generated, so reports read a handful of rows per day instead of
+// every image. Every bump is a single SQL upsert that adds to the stored
+// value, so concurrent sign-ups and generations can't overwrite each other.
+// rebuildMetrics recomputes everything from the source tables for data that
+// predates the rollups.
+
+// One row per UTC day, keyed by its YYYY-MM-DD date
+export interface DailyMetrics {
+  id: string
+  date: string
+  images: number
+  newUsers: number
+  // Users who generated at least one image that day
+  activeUsers: number
+  updatedAt: string
+}
+
+// Images per day for one value of a breakdown, e.g. size 1024x1024. Keyed by
+// date, dimension and value.
+export interface DailyCount {
+  id: string
+  date: string
+  dimension: CountDimension
+  value: string
+  count: number
+  updatedAt: string
+}
+
+// Marks a user as active on a day, so they are counted once. Keyed by date
+// and user id.
+export interface UserDay {
+  id: string
+  date: string
+  userId: string
+  updatedAt: string
+}
+
+// Per-user totals, keyed by the user's id
+export interface UserActivity {
+  id: string
+  userId: string
+  signedUpAt: string
+  firstActiveAt?: string | null
+  lastActiveAt?: string | null
+  // Every image generated, including ones since deleted
+  images: number
+  updatedAt?: string
+}
+
+type Counts = Record<string, number>
+
+export type CountDimension = 'size' | 'quality' | 'style' | 'prompt'
+
+export interface DailyStat {
+  date: string
+  images: number
+  newUsers: number
+  activeUsers: number
+  sizes: Counts
+  qualities: Counts
+  styles: Counts
+}
+
+export interface OverviewStats {
+  totalUsers: number
+  totalImages: number
+  trashedImages: number
+  imagesThisMonth: number
+  activeUsers: number
+}
+
+export interface MetricsUser {
+  id: string
+  email: string
+  displayName?: string
+  role?: string
+  createdAt?: string
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const PAGE_SIZE = 1000
+const PROMPT_LENGTH = 80
+
+export const USERS_PAGE_SIZE = 50
+
+const BREAKDOWN_DIMENSIONS: Record<Exclude<CountDimension, 'prompt'>, BreakdownKey> = {
+  size: 'sizes',
+  quality: 'qualities',
+  style: 'styles'
+}
+
+export const dayKey = (date: Date | string) => new Date(date).toISOString().slice(0, 10)
+
+const addCount = (counts: Counts, key: string | null | undefined, by = 1) => {
+  const name = key || 'unknown'
+  counts[name] = (counts[name] || 0) + by
+}
+
+const promptKey = (prompt: string) => prompt.trim().slice(0, PROMPT_LENGTH)
+
+const dailyCountId = (date: string, dimension: CountDimension, value: string) => `${date}:${dimension}:${value}`
+
+const emptyDay = (date: string): DailyStat => ({
+  date,
+  images: 0,
+  newUsers: 0,
+  activeUsers: 0,
+  sizes: {},
+  qualities: {},
+  styles: {}
+})
+
+// The breakdown counts of a batch of images, one entry per dimension and value
+function countImages(images: Pick<GeneratedImage, 'size' | 'quality' | 'style' | 'prompt'>[]) {
+  const counts: Record<CountDimension, Counts> = { size: {}, quality: {}, style: {}, prompt: {} }
+  images.forEach(image => {
+    addCount(counts.size, image.size)
+    addCount(counts.quality, image.quality)
+    addCount(counts.style, image.style)
+    addCount(counts.prompt, promptKey(image.prompt))
+  })
+  return counts
+}
+
+const snakeCase = (name: string) => name.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`)
+
+// Inserts the rows, or for ids that already exist adds the `added` columns
+// onto the stored values. Everything else keeps the stored value unless
+// listed in `replaced`. Runs as one statement, so it is atomic.
+async function upsertAdding<T extends { id: string }>(
+  table: string,
+  rows: T[],
+  added: (keyof T & string)[],
+  replaced: (keyof T & string)[] = []
+) {
+  if (rows.length === 0) return
+  const columns = Object.keys(rows[0]) as (keyof T & string)[]
+  const placeholders = `(${columns.map(() => '?').join(', ')})`
+  const updates = [
+    ...added.map(column => `${snakeCase(column)} = ${snakeCase(column)} + excluded.${snakeCase(column)}`),
+    ...replaced.map(column => `${snakeCase(column)} = excluded.${snakeCase(column)}`)
+  ]
+  await blink.db.sql(
+    `INSERT INTO ${snakeCase(table)} (${columns.map(snakeCase).join(', ')})
+     VALUES ${rows.map(() => placeholders).join(', ')}
+     ON CONFLICT(id) DO UPDATE SET ${updates.join(', ')}`,
+    rows.flatMap(row => columns.map(column => row[column]))
+  )
+}
+
+// Inserts the row unless its id exists. Resolves true when it was inserted.
+async function insertIfMissing<T extends { id: string }>(table: string, row: T) {
+  const columns = Object.keys(row) as (keyof T & string)[]
+  const result = await blink.db.sql<{ id: string }>(
+    `INSERT INTO ${snakeCase(table)} (${columns.map(snakeCase).join(', ')})
+     VALUES (${columns.map(() => '?').join(', ')})
+     ON CONFLICT(id) DO NOTHING
+     RETURNING id`,
+    columns.map(column => row[column])
+  )
+  return result.rows.length > 0
+}
+
+async function bumpDay(date: string, by: Partial<Pick<DailyMetrics, 'images' | 'newUsers' | 'activeUsers'>>) {
+  await upsertAdding<DailyMetrics>('dailyMetrics', [{
+    id: date,
+    date,
+    images: by.images ?? 0,
+    newUsers: by.newUsers ?? 0,
+    activeUsers: by.activeUsers ?? 0,
+    updatedAt: new Date().toISOString()
+  }], ['images', 'newUsers', 'activeUsers'], ['updatedAt'])
+}
+
+// Counts a user once, on the day their account was created. Safe to call on
+// every sign-in. Best-effort: a failed write is only logged.
+export async function recordSignup(user: { id: string; createdAt?: string }) {
+  try {
+    const signedUpAt = user.createdAt || new Date().toISOString()
+    const created = await insertIfMissing<UserActivity>('userActivity', {
+      id: user.id,
+      userId: user.id,
+      signedUpAt,
+      firstActiveAt: null,
+      lastActiveAt: null,
+      images: 0,
+      updatedAt: new Date().toISOString()
+    })
+    if (created) await bumpDay(dayKey(signedUpAt), { newUsers: 1 })
+  } catch (error) {
+    console.error('Failed to record signup metrics:', error)
+  }
+}
+
+// Adds a finished batch to the day's rollup. Best-effort like recordSignup.
+export async function recordGeneration(userId: string, images: GeneratedImage[]) {
+  if (images.length === 0) return
+  const createdAt = images[0].createdAt
+  const date = dayKey(createdAt)
+  const now = new Date().toISOString()
+
+  try {
+    const firstToday = await insertIfMissing<UserDay>('userDays', {
+      id: `${date}:${userId}`,
+      date,
+      userId,
+      updatedAt: now
+    })
+    await bumpDay(date, { images: images.length, activeUsers: firstToday ? 1 : 0 })
+
+    const counts = countImages(images)
+    await upsertAdding<DailyCount>('dailyCounts', (Object.keys(counts) as CountDimension[]).flatMap(dimension =>
+      Object.entries(counts[dimension]).map(([value, count]) => ({
+        id: dailyCountId(date, dimension, value),
+        date,
+        dimension,
+        value,
+        count,
+        updatedAt: now
+      }))
+    ), ['count'], ['updatedAt'])
+
+    await blink.db.sql(
+      `INSERT INTO user_activity (id, user_id, signed_up_at, first_active_at, last_active_at, images, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET
+         images = images + excluded.images,
+         first_active_at = coalesce(first_active_at, excluded.first_active_at),
+         last_active_at = max(coalesce(last_active_at, ''), excluded.last_active_at),
+         updated_at = excluded.updated_at`,
+      [userId, userId, createdAt, createdAt, createdAt, images.length, now]
+    )
+  } catch (error) {
+    console.error('Failed to record generation metrics:', error)
+  }
+}
+
+// Reads a whole table a page at a time
+async function listAll<T>(
+  table: { list: (options: object) => Promise<T[]> },
+  options: { where?: object; select?: string[] } = {}
+): Promise<T[]> {
+  const rows: T[] = []
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await table.list({ ...options, orderBy: { id: 'asc' }, limit: PAGE_SIZE, offset })
+    rows.push(...page)
+    if (page.length < PAGE_SIZE) return rows
+  }
+}
+
+const userSearchFilter = (search: string): Record<string, unknown>[] => search.trim()
+  ? [{ OR: [{ email: { ilike: `%${search.trim()}%` } }, { displayName: { ilike: `%${search.trim()}%` } }] }]
+  : []
+
+// One page of users, newest first, matching the search on email or name.
+// Pages continue after the last user of the previous one.
+export async function listUsersPage(search: string, after: MetricsUser | null = null): Promise<MetricsUser[]> {
+  const filters = userSearchFilter(search)
+  if (after) {
+    filters.push({
+      OR: [
+        { createdAt: { lt: after.createdAt } },
+        { AND: [{ createdAt: after.createdAt }, { id: { lt: after.id } }] }
+      ]
+    })
+  }
+
+  return blink.db.users.list({
+    where: filters.length > 0 ? { AND: filters } : undefined,
+    select: ['id', 'email', 'displayName', 'role', 'createdAt'],
+    orderBy: { createdAt: 'desc', id: 'desc' },
+    limit: USERS_PAGE_SIZE
+  })
+}
+
+// Users matching the search, optionally only those with the given role
+export async function countUsers(search = '', role?: string): Promise<number> {
+  const filters = userSearchFilter(search)
+  if (role) filters.push({ role })
+  return blink.db.users.count({ where: filters.length > 0 ? { AND: filters } : undefined })
+}
+
+export async function listUsersById(userIds: string[]): Promise<Record<string, MetricsUser>> {
+  const ids = [...new Set(userIds)]
+  if (ids.length === 0) return {}
+  const users: MetricsUser[] = await blink.db.users.list({ where: { id: { in: ids } } })
+  return Object.fromEntries(users.map(user => [user.id, user]))
+}
+
+// Activity of the given users, keyed by user id
+export async function listUserActivity(userIds: string[]): Promise<Record<string, UserActivity>> {
+  if (userIds.length === 0) return {}
+  const rows: UserActivity[] = await blink.db.userActivity.list({
+    where: { id: { in: userIds } },
+    limit: userIds.length
+  })
+  return Object.fromEntries(rows.map(row => [row.userId, row]))
+}
+
+// Recomputes every rollup from the users and images tables. Progress is
+// reported as rows read. The new rows are written over the old ones first,
+// and only rows the rebuild didn't touch are deleted afterwards, so a failure
+// partway leaves the previous figures in place. Bumps recorded while it runs
+// are newer than the rebuild and kept.
+export async function rebuildMetrics(onProgress?: (read: number) => void) {
+  const startedAt = new Date().toISOString()
+  const users = await listAll<{ id: string; createdAt?: string }>(blink.db.users, { select: ['id', 'createdAt'] })
+  onProgress?.(users.length)
+
+  const days = new Map<string, DailyStat & { active: Set<string>; counts: Record<CountDimension, Counts> }>()
+  const getDay = (date: string) => {
+    let day = days.get(date)
+    if (!day) {
+      day = { ...emptyDay(date), active: new Set(), counts: countImages([]) }
+      days.set(date, day)
+    }
+    return day
+  }
+
+  const activity = new Map<string, UserActivity>(users.map(user => [user.id, {
+    id: user.id,
+    userId: user.id,
+    signedUpAt: user.createdAt || startedAt,
+    firstActiveAt: null,
+    lastActiveAt: null,
+    images: 0,
+    updatedAt: startedAt
+  }]))
+  users.forEach(user => {
+    getDay(dayKey(user.createdAt || startedAt)).newUsers++
+  })
+
+  let read = users.length
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page: GeneratedImage[] = await blink.db.generatedImages.list({
+      select: ['id', 'userId', 'prompt', 'size', 'quality', 'style', 'createdAt'],
+      orderBy: { id: 'asc' },
+      limit: PAGE_SIZE,
+      offset
+    })
+    page.forEach(image => {
+      const day = getDay(dayKey(image.createdAt))
+      day.images++
+      day.active.add(image.userId)
+      const counts = countImages([image])
+      ;(Object.keys(counts) as CountDimension[]).forEach(dimension =>
+        Object.entries(counts[dimension]).forEach(([value, count]) => addCount(day.counts[dimension], value, count))
+      )
+
+      const user = activity.get(image.userId)
+      if (user) {
+        user.images++
+        if (!user.firstActiveAt || image.createdAt < user.firstActiveAt) user.firstActiveAt = image.createdAt
+        if (!user.lastActiveAt || image.createdAt > user.lastActiveAt) user.lastActiveAt = image.createdAt
+      }
+    })
+    read += page.length
+    onProgress?.(read)
+    if (page.length < PAGE_SIZE) break
+  }
+
+  const dayRows: DailyMetrics[] = [...days.values()].map(day => ({
+    id: day.date,
+    date: day.date,
+    images: day.images,
+    newUsers: day.newUsers,
+    activeUsers: day.active.size,
+    updatedAt: startedAt
+  }))
+  const countRows: DailyCount[] = [...days.values()].flatMap(day =>
+    (Object.keys(day.counts) as CountDimension[]).flatMap(dimension =>
+      Object.entries(day.counts[dimension]).map(([value, count]) => ({
+        id: dailyCountId(day.date, dimension, value),
+        date: day.date,
+        dimension,
+        value,
+        count,
+        updatedAt: startedAt
+      }))
+    )
+  )
+  const userDayRows: UserDay[] = [...days.values()].flatMap(day =>
+    [...day.active].map(userId => ({ id: `${day.date}:${userId}`, date: day.date, userId, updatedAt: startedAt }))
+  )
+
+  const tables = [
+    { table: blink.db.dailyMetrics, rows: dayRows },
+    { table: blink.db.dailyCounts, rows: countRows },
+    { table: blink.db.userDays, rows: userDayRows },
+    { table: blink.db.userActivity, rows: [...activity.values()] }
+  ]
+  for (const { table, rows } of tables) {
+    for (let i = 0; i < rows.length; i += PAGE_SIZE) {
+      await table.upsertMany(rows.slice(i, i + PAGE_SIZE))
+    }
+  }
+  for (const { table } of tables.slice(0, 3)) {
+    await table.deleteMany({ where: { updatedAt: { lt: startedAt } } })
+  }
+}
+
+// The last `days` days up to today, oldest first, with empty days filled in
+export async function getDailyStats(days: number, now = new Date()): Promise<DailyStat[]> {
+  const dates = Array.from({ length: days }, (_, i) => dayKey(new Date(now.getTime() - (days - 1 - i) * DAY_MS)))
+  const [rows, counts] = await Promise.all([
+    blink.db.dailyMetrics.list({
+      where: { date: { gte: dates[0] } },
+      orderBy: { date: 'asc' },
+      limit: days + 1
+    }) as Promise<DailyMetrics[]>,
+    listAll<DailyCount>(blink.db.dailyCounts, {
+      where: { AND: [{ date: { gte: dates[0] } }, { dimension: { in: Object.keys(BREAKDOWN_DIMENSIONS) } }] }
+    })
+  ])
+
+  const byDate = new Map(dates.map(date => [date, emptyDay(date)]))
+  rows.forEach(row => {
+    const day = byDate.get(row.date)
+    if (!day) return
+    day.images = Number(row.images) || 0
+    day.newUsers = Number(row.newUsers) || 0
+    day.activeUsers = Number(row.activeUsers) || 0
+  })
+  counts.forEach(row => {
+    const day = byDate.get(row.date)
+    const key = BREAKDOWN_DIMENSIONS[row.dimension as keyof typeof BREAKDOWN_DIMENSIONS]
+    if (day && key) addCount(day[key], row.value, Number(row.count) || 0)
+  })
+  return [...byDate.values()]
+}
+
+// Sums the per-day counts of one breakdown, e.g. sizes, across the stats
+export function sumCounts(stats: DailyStat[], key: BreakdownKey): Counts {
+  const total: Counts = {}
+  stats.forEach(stat => Object.entries(stat[key]).forEach(([name, count]) => addCount(total, name, count)))
+  return total
+}
+
+// The most used prompts between two day keys, inclusive. Summed in the
+// database since there is a row per distinct prompt per day.
+export async function listTopPrompts(from: string, to: string, limit = 10) {
+  const result = await blink.db.sql<{ prompt: string; count: number }>(
+    `SELECT value AS prompt, SUM(count) AS count
+     FROM daily_counts
+     WHERE dimension = 'prompt' AND date >= ? AND date <= ?
+     GROUP BY value
+     ORDER BY count DESC
+     LIMIT ?`,
+    [from, to, limit]
+  )
+  return result.rows.map(row => ({ prompt: row.prompt, count: Number(row.count) || 0 }))
+}
+
+export type BreakdownKey = 'sizes' | 'qualities' | 'styles'
+
+export const OTHER = 'Other'
+
+// The most used names of a breakdown across the stats, with the rest folded
+// into "Other" so a stacked chart stays readable
+export function breakdownNames(stats: DailyStat[], key: BreakdownKey, limit = 5): string[] {
+  const names = Object.entries(sumCounts(stats, key))
+    .sort(([, a], [, b]) => b - a)
+    .map(([name]) => name)
+  return names.length > limit ? [...names.slice(0, limit - 1), OTHER] : names
+}
+
+// Registered users at the end of each day, counted back from today's total
+export function cumulativeUsers(stats: DailyStat[], totalUsers: number) {
+  let users = totalUsers
+  return stats
+    .slice()
+    .reverse()
+    .map(stat => {
+      const day = { date: stat.date, users, newUsers: stat.newUsers }
+      users -= stat.newUsers
+      return day
+    })
+    .reverse()
+}
+
+// Day keys are UTC dates, so they're formatted in UTC to avoid shifting a day
+export const formatDay = (date: string, options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric' }) =>
+  new Date(date).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' })
+
+// Exact totals from counts, plus rollup sums for the time-based figures
+export async function getOverviewStats(now = new Date()): Promise<OverviewStats> {
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+  const weekAgo = new Date(now.getTime() - 7 * DAY_MS)
+  const [totalUsers, totalImages, trashedImages, monthRows, activeUsers] = await Promise.all([
+    blink.db.users.count(),
+    blink.db.generatedImages.count({ where: { deletedAt: { is: null }, removedAt: { is: null } } }),
+    blink.db.generatedImages.count({ where: { deletedAt: { gt: '' }, removedAt: { is: null } } }),
+    blink.db.dailyMetrics.list({ where: { date: { gte: dayKey(monthStart) } }, limit: 31 }),
+    countActiveUsers(weekAgo)
+  ])
+  return {
+    totalUsers,
+    totalImages,
+    trashedImages,
+    imagesThisMonth: (monthRows as DailyMetrics[]).reduce((sum, row) => sum + (Number(row.images) || 0), 0),
+    activeUsers
+  }
+}
+
+// Distinct users who generated anything since the given time
+export async function countActiveUsers(since: Date): Promise<number> {
+  return blink.db.userActivity.count({ where: { lastActiveAt: { gte: since.toISOString() } } })
+}
+
+export async function listRecentUsers(limit: number): Promise<MetricsUser[]> {
+  return blink.db.users.list({ orderBy: { createdAt: 'desc' }, limit })
+}
+
+// Newest images, minus anything trashed, taken down or hidden by a moderator
+export async function listRecentImages(limit: number): Promise<GeneratedImage[]> {
+  return blink.db.generatedImages.list({
+    where: {
+      AND: [
+        { deletedAt: { is: null } },
+        { removedAt: { is: null } },
+        { OR: [{ moderationStatus: { in: ['pending', 'approved'] } }, { moderationStatus: { is: null } }] }
+      ]
+    },
+    orderBy: { createdAt: 'desc' },
+    limit
+  })
+}
@@ -0,0 +1,146 @@
+import { blink } from './blink'
+import { recordAudit } from './audit'
+import { notifyUser } from './notifications'
+import { REVIEW_HOLD_REASON } from './policy'
+import type { GeneratedImage } from './images'
+
+export type ModerationStatus = 'pending' | 'approved' | 'hidden' | 'removed'
+export type ModerationAction = 'approve' | 'hide' | 'remove'
+
+export const MODERATION_REASONS = [
+  'Sexual content',
+  'Violence or gore',
+  'Hate or harassment',
+  'Real person likeness',
+  'Copyright or trademark',
+  'Spam',
+  'Other'
+]
+
+export const MODERATION_PAGE_SIZE = 24
+
+const ACTION_STATUS: Record<ModerationAction, ModerationStatus> = {
+  approve: 'approved',
+  hide: 'hidden',
+  remove: 'removed'
+}
+
+// Images from before moderation have no status and count as pending
+export const moderationStatus = (image: GeneratedImage): ModerationStatus => image.moderationStatus || 'pending'
+
+export const isHidden = (image: GeneratedImage) => moderationStatus(image) === 'hidden'
+
+// Images from prompts the content policy sends to review are stored hidden
+// until a moderator decides, so they wait in the pending queue rather than
+// among images a moderator hid
+export const isHeldForReview = (image: GeneratedImage) =>
+  isHidden(image) && image.moderationReason === REVIEW_HOLD_REASON
+
+function statusFilter(status: ModerationStatus | 'all') {
+  if (status === 'all') return []
+  if (status === 'pending') {
+    return [{
+      OR: [
+        { moderationStatus: 'pending' },
+        { moderationStatus: { is: null } },
+        { AND: [{ moderationStatus: 'hidden' }, { moderationReason: REVIEW_HOLD_REASON }] }
+      ]
+    }]
+  }
+  if (status === 'hidden') {
+    return [
+      { moderationStatus: 'hidden' },
+      { OR: [{ moderationReason: { is: null } }, { moderationReason: { neq: REVIEW_HOLD_REASON } }] }
+    ]
+  }
+  return [{ moderationStatus: status }]
+}
+
+// Every user's images, oldest first for pending so nothing waits forever and
+// newest first otherwise. Trashed images are left out. Pages continue after
+// the last image of the previous page by (createdAt, id), so images
+// moderated in the meantime don't shift the next page.
+export async function listModerationQueue(
+  status: ModerationStatus | 'all',
+  after: GeneratedImage | null = null
+): Promise<GeneratedImage[]> {
+  const direction = status === 'pending' ? 'asc' : 'desc'
+  const past = direction === 'asc' ? 'gt' : 'lt'
+  const filters: Record<string, unknown>[] = [{ deletedAt: { is: null } }, ...statusFilter(status)]
+  if (after) {
+    filters.push({
+      OR: [
+        { createdAt: { [past]: after.createdAt } },
+        { AND: [{ createdAt: after.createdAt }, { id: { [past]: after.id } }] }
+      ]
+    })
+  }
+
+  return blink.db.generatedImages.list({
+    where: { AND: filters },
+    orderBy: { createdAt: direction, id: direction },
+    limit: MODERATION_PAGE_SIZE
+  })
+}
+
+export async function countModerationQueue(status: ModerationStatus | 'all'): Promise<number> {
+  return blink.db.generatedImages.count({
+    where: { AND: [{ deletedAt: { is: null } }, ...statusFilter(status)] }
+  })
+}
+
+const OWNER_MESSAGES: Record<ModerationAction, (reason: string) => { title: string; body: string }> = {
+  approve: () => ({
+    title: 'Your image is visible again',
+    body: 'A moderator reviewed your image and restored it.'
+  }),
+  hide: (reason) => ({
+    title: 'One of your images was hidden',
+    body: `A moderator hid your image${reason ? ` (${reason})` : ''}. You can still see it, but it can't be shared.`
+  }),
+  remove: (reason) => ({
+    title: 'One of your images was removed',
+    body: `A moderator removed your image${reason ? ` (${reason})` : ''}. It no longer appears in your gallery.`
+  })
+}
+
+// Applies a decision and tells the owner. Approving a fresh image is silent;
+// approving one that was hidden or removed lets the owner know it's back.
+export async function moderateImage(
+  image: GeneratedImage,
+  action: ModerationAction,
+  moderatorId: string,
+  reason = ''
+): Promise<GeneratedImage> {
+  const previous = moderationStatus(image)
+  const now = new Date().toISOString()
+  const patch: Partial<GeneratedImage> = {
+    moderationStatus: ACTION_STATUS[action],
+    moderationReason: action === 'approve' ? null : reason.trim() || null,
+    moderatedBy: moderatorId,
+    moderatedAt: now,
+    removedAt: action === 'remove' ? now : null
+  }
+
+  await blink.db.generatedImages.update(image.id, patch)
+  await recordAudit({
+    action: 'image.moderate',
+    targetType: 'image',
+    targetId: image.id,
+    targetLabel: image.prompt.slice(0, 80),
+    before: { status: previous, reason: image.moderationReason ?? null },
+    after: { status: patch.moderationStatus, reason: patch.moderationReason }
+  })
+
+  const wasRestricted = previous === 'hidden' || previous === 'removed'
+  if (action !== 'approve' || wasRestricted) {
+    try {
+      await notifyUser(image.userId, { ...OWNER_MESSAGES[action](patch.moderationReason ?? ''), link: '/gallery' })
+    } catch (error) {
+      // The decision stands even if the owner can't be told
+      console.error('Failed to notify image owner:', error)
+    }
+  }
+
+  return { ...image, ...patch }
+}
@@ -0,0 +1,44 @@
+import { blink } from './blink'
+import { createId } from './utils'
+
+// A message for one user, such as a moderator acting on their image
+export interface Notification {
+  id: string
+  userId: string
+  title: string
+  body: string
+  // Where clicking the notification should go, if anywhere
+  link?: string | null
+  // 1 once seen; the table stores flags as integers
+  read: number
+  createdAt: string
+}
+
+export const isUnread = (notification: Notification) => !(Number(notification.read) > 0)
+
+export async function notifyUser(userId: string, message: { title: string; body: string; link?: string }) {
+  const notification: Notification = {
+    id: createId('notif'),
+    userId,
+    title: message.title,
+    body: message.body,
+    link: message.link ?? null,
+    read: 0,
+    createdAt: new Date().toISOString()
+  }
+  await blink.db.notifications.create(notification)
+  return notification
+}
+
+export async function listNotifications(userId: string, limit = 20): Promise<Notification[]> {
+  return blink.db.notifications.list({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+    limit
+  })
+}
+
+export async function markNotificationsRead(notificationIds: string[]) {
+  if (notificationIds.length === 0) return
+  await blink.db.notifications.updateMany(notificationIds.map(id => ({ id, read: 1 })))
+}
@@ -0,0 +1,118 @@
+import { blink } from './blink'
+import { createId } from './utils'
+import { recordAudit } from './audit'
+
+export type Permission = 'viewAnalytics' | 'manageUsers' | 'moderateContent' | 'editSettings' | 'viewAuditLog' | 'rebuildMetrics'
+
+export const PERMISSIONS: { value: Permission; label: string; description: string }[] = [
+  { value: 'viewAnalytics', label: 'View analytics', description: 'Dashboard and analytics pages' },
+  { value: 'manageUsers', label: 'Manage users', description: 'Roles, status, quotas, invites and the waiting list' },
+  { value: 'moderateContent', label: 'Moderate content', description: 'Review and remove images' },
+  { value: 'editSettings', label: 'Edit settings', description: 'Site-wide settings' },
+  { value: 'viewAuditLog', label: 'View audit log', description: 'Browse and export the record of admin actions' },
+  { value: 'rebuildMetrics', label: 'Rebuild metrics', description: 'Recompute the analytics rollups from every user and image' }
+]
+
+// A role admins define on top of the built-in ones. Users reference it by id
+// in their `role` field.
+export interface CustomRole {
+  id: string
+  name: string
+  permissions: string // JSON Permission[]
+  createdBy: string
+  createdAt: string
+}
+
+export interface RoleDefinition {
+  id: string
+  name: string
+  permissions: Permission[]
+  builtIn: boolean
+}
+
+export const BUILT_IN_ROLES: RoleDefinition[] = [
+  { id: 'admin', name: 'Admin', permissions: PERMISSIONS.map(p => p.value), builtIn: true },
+  { id: 'moderator', name: 'Moderator', permissions: ['moderateContent', 'viewAnalytics'], builtIn: true },
+  { id: 'user', name: 'User', permissions: [], builtIn: true }
+]
+
+const isPermission = (value: unknown): value is Permission =>
+  PERMISSIONS.some(p => p.value === value)
+
+export function toRoleDefinition(role: CustomRole): RoleDefinition {
+  let permissions: Permission[] = []
+  try {
+    const parsed = JSON.parse(role.permissions)
+    if (Array.isArray(parsed)) permissions = parsed.filter(isPermission)
+  } catch {
+    // Unreadable permissions grant nothing
+  }
+  return { id: role.id, name: role.name, permissions, builtIn: false }
+}
+
+export async function listRoles(): Promise<RoleDefinition[]> {
+  const custom: CustomRole[] = await blink.db.roles.list({ orderBy: { name: 'asc' }, limit: 100 })
+  return [...BUILT_IN_ROLES, ...custom.map(toRoleDefinition)]
+}
+
+// A role can only be handed out, or taken away, by someone who holds every
+// permission it grants, so nobody can lift themselves or others above their
+// own access
+export const canGrantRole = (granted: Set<Permission>, role: RoleDefinition) =>
+  role.permissions.every(permission => granted.has(permission))
+
+// Users without a role, or whose custom role was deleted, get no permissions
+export async function loadRolePermissions(roleId?: string): Promise<Set<Permission>> {
+  const builtIn = BUILT_IN_ROLES.find(role => role.id === (roleId || 'user'))
+  if (builtIn) return new Set(builtIn.permissions)
+
+  const role = await blink.db.roles.get(roleId) as CustomRole | null
+  return new Set(role ? toRoleDefinition(role).permissions : [])
+}
+
+export async function createRole(name: string, permissions: Permission[], adminId: string): Promise<RoleDefinition> {
+  const role: CustomRole = {
+    id: createId('role'),
+    name: name.trim(),
+    permissions: JSON.stringify(permissions),
+    createdBy: adminId,
+    createdAt: new Date().toISOString()
+  }
+  await blink.db.roles.create(role)
+  await recordAudit({
+    action: 'role.create',
+    targetType: 'role',
+    targetId: role.id,
+    targetLabel: role.name,
+    after: { name: role.name, permissions }
+  })
+  return toRoleDefinition(role)
+}
+
+export async function updateRolePermissions(role: RoleDefinition, permissions: Permission[]) {
+  await blink.db.roles.update(role.id, { permissions: JSON.stringify(permissions) })
+  await recordAudit({
+    action: 'role.update',
+    targetType: 'role',
+    targetId: role.id,
+    targetLabel: role.name,
+    before: { permissions: role.permissions },
+    after: { permissions }
+  })
+}
+
+// Members of a deleted role drop back to a plain user
+export async function deleteRole(role: RoleDefinition) {
+  // Moves every member in one statement, however many there are
+  const moved = await blink.db.sql('UPDATE users SET role = ? WHERE role = ?', ['user', role.id])
+  const members = moved.rowCount
+  await blink.db.roles.delete(role.id)
+  await recordAudit({
+    action: 'role.delete',
+    targetType: 'role',
+    targetId: role.id,
+    targetLabel: role.name,
+    before: { name: role.name, permissions: role.permissions, members }
+  })
+  return members
+}
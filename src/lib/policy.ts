@@ -0,0 +1,203 @@
+import { blink } from './blink'
+import { createId } from './utils'
+import { recordAudit } from './audit'
+
+export type PolicySeverity = 'warn' | 'review' | 'block'
+export type PolicyRuleKind = 'keyword' | 'regex'
+
+export const POLICY_SEVERITIES: { value: PolicySeverity; label: string; description: string }[] = [
+  { value: 'warn', label: 'Warn', description: 'The user confirms before the prompt is queued' },
+  { value: 'review', label: 'Require review', description: 'Images are generated hidden until a moderator approves them' },
+  { value: 'block', label: 'Block', description: 'The prompt is refused' }
+]
+
+// Higher wins when several rules match
+const SEVERITY_RANK: Record<PolicySeverity, number> = { warn: 1, review: 2, block: 3 }
+
+export interface PolicyRule {
+  id: string
+  kind: PolicyRuleKind
+  pattern: string
+  severity: PolicySeverity
+  note: string
+  enabled: number // 0/1
+  createdBy: string
+  createdAt: string
+}
+
+export interface PolicyMatch {
+  ruleId: string
+  kind: PolicyRuleKind
+  pattern: string
+  severity: PolicySeverity
+  // The part of the prompt that matched
+  excerpt: string
+}
+
+export interface PolicyVerdict {
+  // The strictest matching severity, or null when the prompt is clean
+  severity: PolicySeverity | null
+  matches: PolicyMatch[]
+}
+
+// A flagged submission. Blocked prompts never become jobs, so this is the
+// only record of them.
+export interface PolicyEvent {
+  id: string
+  userId: string
+  prompt: string
+  severity: PolicySeverity
+  ruleIds: string // JSON array
+  createdAt: string
+}
+
+export class PolicyViolationError extends Error {
+  verdict: PolicyVerdict
+
+  constructor(verdict: PolicyVerdict) {
+    super('This prompt is not allowed by the content policy')
+    this.name = 'PolicyViolationError'
+    this.verdict = verdict
+  }
+}
+
+export const REVIEW_HOLD_REASON = 'Held for review: the prompt matched the content policy'
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// Keywords match whole words, case-insensitively; regexes are always
+// case-insensitive too
+function compileRule(rule: Pick<PolicyRule, 'kind' | 'pattern'>) {
+  const source = rule.kind === 'keyword' ? `\\b${escapeRegex(rule.pattern.trim())}\\b` : rule.pattern
+  return new RegExp(source, 'i')
+}
+
+// Returns a message describing why a pattern can't be saved, or null
+export function validateRulePattern(kind: PolicyRuleKind, pattern: string) {
+  if (!pattern.trim()) return 'Enter a pattern'
+  if (kind === 'regex') {
+    try {
+      compileRule({ kind, pattern })
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Invalid regular expression'
+    }
+  }
+  return null
+}
+
+export function evaluatePrompt(prompt: string, rules: PolicyRule[]): PolicyVerdict {
+  const matches: PolicyMatch[] = []
+  for (const rule of rules) {
+    if (!Number(rule.enabled)) continue
+    let match: RegExpExecArray | null
+    try {
+      match = compileRule(rule).exec(prompt)
+    } catch {
+      // Rules are validated on save; a bad one left over is skipped
+      continue
+    }
+    if (match) {
+      matches.push({
+        ruleId: rule.id,
+        kind: rule.kind,
+        pattern: rule.pattern,
+        severity: rule.severity,
+        excerpt: match[0]
+      })
+    }
+  }
+
+  const severity = matches.reduce<PolicySeverity | null>(
+    (worst, match) => !worst || SEVERITY_RANK[match.severity] > SEVERITY_RANK[worst] ? match.severity : worst,
+    null
+  )
+  return { severity, matches }
+}
+
+export async function listPolicyRules(): Promise<PolicyRule[]> {
+  return blink.db.promptRules.list({ orderBy: { createdAt: 'desc' }, limit: 500 })
+}
+
+// Screens a prompt against the current enabled rules
+export async function screenPrompt(prompt: string): Promise<PolicyVerdict> {
+  const rules = await blink.db.promptRules.list({ where: { enabled: 1 }, limit: 500 })
+  return evaluatePrompt(prompt, rules)
+}
+
+export async function createPolicyRule(
+  adminId: string,
+  input: { kind: PolicyRuleKind; pattern: string; severity: PolicySeverity; note?: string }
+): Promise<PolicyRule> {
+  const rule: PolicyRule = {
+    id: createId('rule'),
+    kind: input.kind,
+    pattern: input.kind === 'keyword' ? input.pattern.trim() : input.pattern,
+    severity: input.severity,
+    note: input.note?.trim() || '',
+    enabled: 1,
+    createdBy: adminId,
+    createdAt: new Date().toISOString()
+  }
+  await blink.db.promptRules.create(rule)
+  await recordAudit({
+    action: 'policy.create',
+    targetType: 'policyRule',
+    targetId: rule.id,
+    targetLabel: rule.pattern,
+    after: { kind: rule.kind, pattern: rule.pattern, severity: rule.severity }
+  })
+  return rule
+}
+
+export async function updatePolicyRule(rule: PolicyRule, changes: Partial<Pick<PolicyRule, 'severity' | 'enabled'>>) {
+  await blink.db.promptRules.update(rule.id, changes)
+  await recordAudit({
+    action: 'policy.update',
+    targetType: 'policyRule',
+    targetId: rule.id,
+    targetLabel: rule.pattern,
+    before: { severity: rule.severity, enabled: Number(rule.enabled) },
+    after: { severity: changes.severity ?? rule.severity, enabled: Number(changes.enabled ?? rule.enabled) }
+  })
+  return { ...rule, ...changes }
+}
+
+export async function deletePolicyRule(rule: PolicyRule) {
+  await blink.db.promptRules.delete(rule.id)
+  await recordAudit({
+    action: 'policy.delete',
+    targetType: 'policyRule',
+    targetId: rule.id,
+    targetLabel: rule.pattern,
+    before: { kind: rule.kind, pattern: rule.pattern, severity: rule.severity }
+  })
+}
+
+// Best-effort like the audit log: the submission has already been decided
+export async function recordPolicyEvent(userId: string, prompt: string, verdict: PolicyVerdict) {
+  if (!verdict.severity) return
+  const event: PolicyEvent = {
+    id: createId('policy'),
+    userId,
+    prompt,
+    severity: verdict.severity,
+    ruleIds: JSON.stringify(verdict.matches.map(match => match.ruleId)),
+    createdAt: new Date().toISOString()
+  }
+  try {
+    await blink.db.policyEvents.create(event)
+  } catch (error) {
+    console.error('Failed to record policy event:', error)
+  }
+}
+
+// Flagged submissions per severity since the given date
+export async function countPolicyEvents(since: Date): Promise<Record<PolicySeverity, number>> {
+  const createdAt = { gte: since.toISOString() }
+  const [warn, review, block] = await Promise.all(
+    (['warn', 'review', 'block'] as const).map(severity =>
+      blink.db.policyEvents.count({ where: { severity, createdAt } })
+    )
+  )
+  return { warn, review, block }
+}
@@ -0,0 +1,84 @@
+import { blink } from './blink'
+import { loadSettings } from './settings'
+
+// An admin-set image limit for one user, replacing the site-wide
+// maxImagesPerUser. Keyed by the user's id.
+export interface QuotaOverride {
+  id: string
+  userId: string
+  maxImages: number
+  updatedBy: string
+  updatedAt: string
+}
+
+export interface QuotaStatus {
+  limit: number
+  used: number
+  remaining: number
+  overridden: boolean
+}
+
+export class QuotaExceededError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'QuotaExceededError'
+  }
+}
+
+// Images in the trash still take up storage, so they count until purged.
+// Images a moderator removed don't count, since the owner can't delete them.
+export async function getUserQuota(userId: string): Promise<QuotaStatus> {
+  const [settings, override, used] = await Promise.all([
+    loadSettings(),
+    blink.db.quotaOverrides.get(userId) as Promise<QuotaOverride | null>,
+    blink.db.generatedImages.count({ where: { userId, removedAt: { is: null } } }) as Promise<number>
+  ])
+  const limit = override ? Number(override.maxImages) : settings.maxImagesPerUser
+  return { limit, used, remaining: Math.max(0, limit - used), overridden: !!override }
+}
+
+// Explains why `requested` more images don't fit, or returns null if they do
+export function describeQuotaShortfall(quota: QuotaStatus, requested: number, reserved = 0) {
+  const available = Math.max(0, quota.remaining - reserved)
+  if (requested <= available) return null
+  if (available === 0) {
+    return reserved > 0
+      ? `Your queued generations already use the rest of your ${quota.limit}-image quota`
+      : `You've reached your limit of ${quota.limit} images. Empty the trash or ask an admin for a higher quota.`
+  }
+  return `Only ${available} image${available === 1 ? '' : 's'} left in your quota; lower the number of variants`
+}
+
+export async function assertQuota(userId: string, requested: number) {
+  const shortfall = describeQuotaShortfall(await getUserQuota(userId), requested)
+  if (shortfall) throw new QuotaExceededError(shortfall)
+}
+
+// Overrides for the given users, keyed by user id. Fetched by id so the
+// admin table only reads the rows it shows.
+export async function listQuotaOverrides(userIds: string[]): Promise<Record<string, QuotaOverride>> {
+  if (userIds.length === 0) return {}
+  const overrides: QuotaOverride[] = await blink.db.quotaOverrides.list({
+    where: { id: { in: userIds } },
+    limit: userIds.length
+  })
+  return Object.fromEntries(overrides.map(override => [override.userId, override]))
+}
+
+// Passing null removes the override so the site-wide limit applies again
+export async function setQuotaOverride(userId: string, maxImages: number | null, adminId: string) {
+  if (maxImages === null) {
+    await blink.db.quotaOverrides.delete(userId)
+    return null
+  }
+
+  const override: QuotaOverride = {
+    id: userId,
+    userId,
+    maxImages,
+    updatedBy: adminId,
+    updatedAt: new Date().toISOString()
+  }
+  await blink.db.quotaOverrides.upsert(override)
+  return override
+}
@@ -0,0 +1,73 @@
+import { blink } from './blink'
+import { createId } from './utils'
+import { loadSettings } from './settings'
+
+const WINDOW_MS = 60 * 1000
+
+// One accepted generation request. The rows inside the last minute form the
+// sliding window; they live in the database so a reload doesn't reset it.
+interface RateLimitEvent {
+  id: string
+  userId: string
+  createdAt: string
+}
+
+// A refused request, kept for admins to review
+export interface RateLimitHit {
+  id: string
+  userId: string
+  limit: number
+  retryAfterMs: number
+  createdAt: string
+}
+
+export type RateLimitResult =
+  | { allowed: true }
+  | { allowed: false; retryAt: number }
+
+// Checks the user's last minute of requests against apiRateLimit and, if
+// there is room, records this one. A limit of 0 disables rate limiting.
+export async function consumeRateLimit(userId: string): Promise<RateLimitResult> {
+  const { apiRateLimit } = await loadSettings()
+  if (apiRateLimit <= 0) return { allowed: true }
+
+  const now = Date.now()
+  const windowStart = new Date(now - WINDOW_MS).toISOString()
+  await blink.db.rateLimitEvents.deleteMany({
+    where: { AND: [{ userId }, { createdAt: { lt: windowStart } }] }
+  })
+
+  // Counts the window and records this request in one statement, so two
+  // requests at once can't both take the last slot
+  const inserted = await blink.db.sql(
+    `INSERT INTO rate_limit_events (id, user_id, created_at)
+     SELECT ?, ?, ?
+     WHERE (SELECT COUNT(*) FROM rate_limit_events WHERE user_id = ? AND created_at >= ?) < ?`,
+    [createId('rlevt'), userId, new Date(now).toISOString(), userId, windowStart, apiRateLimit]
+  )
+  if (inserted.rowCount > 0) return { allowed: true }
+
+  // The window frees a slot when its oldest request turns a minute old
+  const [oldest]: RateLimitEvent[] = await blink.db.rateLimitEvents.list({
+    where: { AND: [{ userId }, { createdAt: { gte: windowStart } }] },
+    orderBy: { createdAt: 'asc' },
+    limit: 1
+  })
+  const retryAt = (oldest ? new Date(oldest.createdAt).getTime() : now) + WINDOW_MS
+  const hit: RateLimitHit = {
+    id: createId('rlhit'),
+    userId,
+    limit: apiRateLimit,
+    retryAfterMs: retryAt - now,
+    createdAt: new Date(now).toISOString()
+  }
+  await blink.db.rateLimitHits.create(hit)
+  return { allowed: false, retryAt }
+}
+
+export async function listRateLimitHits(limit = 50): Promise<RateLimitHit[]> {
+  return blink.db.rateLimitHits.list({
+    orderBy: { createdAt: 'desc' },
+    limit
+  })
+}
@@ -0,0 +1,128 @@
+import { blink } from './blink'
+import { createId } from './utils'
+import { recordAudit } from './audit'
+import type { GeneratedImage } from './images'
+
+export type ReportStatus = 'open' | 'actioned' | 'dismissed'
+
+export const REPORT_REASONS = [
+  { value: 'sexual', label: 'Sexual content' },
+  { value: 'violence', label: 'Violence or gore' },
+  { value: 'hate', label: 'Hate or harassment' },
+  { value: 'likeness', label: 'Real person likeness' },
+  { value: 'copyright', label: 'Copyright or trademark' },
+  { value: 'spam', label: 'Spam' },
+  { value: 'other', label: 'Something else' }
+] as const
+
+export type ReportReason = typeof REPORT_REASONS[number]['value']
+
+export const REPORT_PAGE_SIZE = 25
+export const MAX_REPORT_COMMENT_LENGTH = 500
+
+export interface ImageReport {
+  id: string
+  imageId: string
+  imageOwnerId: string
+  reporterId: string
+  reporterEmail: string
+  reason: ReportReason
+  comment: string
+  status: ReportStatus
+  resolvedBy?: string | null
+  resolvedAt?: string | null
+  createdAt: string
+}
+
+export class ReportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ReportError'
+  }
+}
+
+export const reportReasonLabel = (reason: string) =>
+  REPORT_REASONS.find(option => option.value === reason)?.label ?? reason
+
+// Only images someone else can see are reportable; owners moderate their own
+// images by deleting them
+export async function reportImage(
+  image: GeneratedImage,
+  reporter: { id: string; email: string },
+  input: { reason: ReportReason; comment: string }
+): Promise<ImageReport> {
+  if (image.userId === reporter.id) throw new ReportError("You can't report your own image")
+
+  const existing = await blink.db.imageReports.count({
+    where: { imageId: image.id, reporterId: reporter.id, status: 'open' }
+  })
+  if (existing > 0) throw new ReportError('You have already reported this image')
+
+  const report: ImageReport = {
+    id: createId('report'),
+    imageId: image.id,
+    imageOwnerId: image.userId,
+    reporterId: reporter.id,
+    reporterEmail: reporter.email,
+    reason: input.reason,
+    comment: input.comment.trim().slice(0, MAX_REPORT_COMMENT_LENGTH),
+    status: 'open',
+    resolvedBy: null,
+    resolvedAt: null,
+    createdAt: new Date().toISOString()
+  }
+  await blink.db.imageReports.create(report)
+  return report
+}
+
+// Open reports oldest first so nothing waits forever; resolved ones newest
+// first. Pages continue after the last report of the previous page by
+// (createdAt, id), so reports resolved in the meantime don't shift them.
+export async function listReports(status: ReportStatus, after: ImageReport | null = null): Promise<ImageReport[]> {
+  const direction = status === 'open' ? 'asc' : 'desc'
+  const past = direction === 'asc' ? 'gt' : 'lt'
+  const filters: Record<string, unknown>[] = [{ status }]
+  if (after) {
+    filters.push({
+      OR: [
+        { createdAt: { [past]: after.createdAt } },
+        { AND: [{ createdAt: after.createdAt }, { id: { [past]: after.id } }] }
+      ]
+    })
+  }
+
+  return blink.db.imageReports.list({
+    where: { AND: filters },
+    orderBy: { createdAt: direction, id: direction },
+    limit: REPORT_PAGE_SIZE
+  })
+}
+
+export async function countReports(status: ReportStatus): Promise<number> {
+  return blink.db.imageReports.count({ where: { status } })
+}
+
+// Closes every open report on the image, since one decision answers them all.
+// Returns the ids that were closed.
+export async function resolveReports(
+  report: ImageReport,
+  status: Exclude<ReportStatus, 'open'>,
+  adminId: string
+): Promise<string[]> {
+  const open: ImageReport[] = await blink.db.imageReports.list({
+    where: { imageId: report.imageId, status: 'open' }
+  })
+  if (open.length === 0) return []
+
+  const resolvedAt = new Date().toISOString()
+  await blink.db.imageReports.updateMany(open.map(r => ({ id: r.id, status, resolvedBy: adminId, resolvedAt })))
+  await recordAudit(open.map(r => ({
+    action: 'report.resolve' as const,
+    targetType: 'report',
+    targetId: r.id,
+    targetLabel: `${reportReasonLabel(r.reason)} on ${r.imageId}`,
+    before: { status: r.status },
+    after: { status }
+  })))
+  return open.map(r => r.id)
+}
@@ -0,0 +1,160 @@
+import { z } from 'zod'
+import { blink } from './blink'
+import { createId } from './utils'
+import { DEFAULT_TRASH_RETENTION_DAYS } from './images'
+import { parseAllowedDomains } from './access'
+import { recordAudit } from './audit'
+
+const count = (label: string, min: number, max: number) =>
+  z.number({ error: `${label} must be a number` })
+    .int(`${label} must be a whole number`)
+    .min(min, `${label} must be at least ${min}`)
+    .max(max, `${label} can be at most ${max}`)
+
+export const settingsSchema = z.object({
+  siteName: z.string().trim().min(1, 'Site name is required').max(60, 'Site name can be at most 60 characters'),
+  siteDescription: z.string().trim().max(200, 'Description can be at most 200 characters'),
+  maxImagesPerUser: count('Max images', 0, 100000),
+  registrationMode: z.enum(['open', 'invite', 'allowlist']),
+  // Email domains admitted in allowlist mode, separated by commas or spaces
+  allowedDomains: z.string().max(1000, 'Domain list can be at most 1000 characters'),
+  enableNotifications: z.boolean(),
+  maintenanceMode: z.boolean(),
+  maintenanceMessage: z.string().trim().max(500, 'Message can be at most 500 characters'),
+  // ISO timestamp, or empty when no end is scheduled
+  maintenanceEndsAt: z.string().refine(value => !value || !Number.isNaN(Date.parse(value)), 'Enter a valid date and time'),
+  // 0 turns rate limiting off
+  apiRateLimit: count('Rate limit', 0, 10000),
+  storageLimit: count('Storage limit', 0, 1000000),
+  trashRetentionDays: count('Trash retention', 1, 365)
+}).refine(
+  settings => settings.registrationMode !== 'allowlist' || parseAllowedDomains(settings.allowedDomains).length > 0,
+  { path: ['allowedDomains'], message: 'Add at least one domain for the allowlist' }
+)
+
+export type SystemSettings = z.infer<typeof settingsSchema>
+
+export const DEFAULT_SETTINGS: SystemSettings = {
+  siteName: 'AI Image Generator',
+  siteDescription: 'Generate stunning AI-powered images with ease',
+  maxImagesPerUser: 100,
+  registrationMode: 'open',
+  allowedDomains: '',
+  enableNotifications: true,
+  maintenanceMode: false,
+  maintenanceMessage: "We're making some improvements and will be back shortly.",
+  maintenanceEndsAt: '',
+  apiRateLimit: 60,
+  storageLimit: 1000,
+  trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS
+}
+
+export type SettingsKey = keyof SystemSettings
+
+export const SETTINGS_LABELS: Record<SettingsKey, string> = {
+  siteName: 'Site name',
+  siteDescription: 'Site description',
+  maxImagesPerUser: 'Max images per user',
+  registrationMode: 'Registration mode',
+  allowedDomains: 'Allowed domains',
+  enableNotifications: 'Notifications',
+  maintenanceMode: 'Maintenance mode',
+  maintenanceMessage: 'Maintenance message',
+  maintenanceEndsAt: 'Maintenance end',
+  apiRateLimit: 'API rate limit',
+  storageLimit: 'Storage limit',
+  trashRetentionDays: 'Trash retention'
+}
+
+export interface SettingsChange {
+  field: SettingsKey
+  before: SystemSettings[SettingsKey]
+  after: SystemSettings[SettingsKey]
+}
+
+// One save from the Settings page. Only the fields that changed are recorded.
+export interface SettingsHistoryEntry {
+  id: string
+  changedBy: string
+  changedByEmail: string
+  changes: string // JSON SettingsChange[]
+  createdAt: string
+}
+
+export interface SettingsActor {
+  id: string
+  email: string
+}
+
+// Settings live in a single row, stored as JSON so new fields don't need a
+// schema change; anything missing falls back to the defaults.
+const SETTINGS_ID = 'global'
+
+export async function loadSettings(): Promise<SystemSettings> {
+  const row = await blink.db.systemSettings.get(SETTINGS_ID)
+  if (!row?.data) return DEFAULT_SETTINGS
+  try {
+    return { ...DEFAULT_SETTINGS, ...JSON.parse(row.data) }
+  } catch {
+    return DEFAULT_SETTINGS
+  }
+}
+
+export function diffSettings(before: SystemSettings, after: SystemSettings): SettingsChange[] {
+  return (Object.keys(SETTINGS_LABELS) as SettingsKey[])
+    .filter(field => before[field] !== after[field])
+    .map(field => ({ field, before: before[field], after: after[field] }))
+}
+
+// Diffs against the stored row rather than what the page loaded, so the
+// history stays accurate if two admins save around the same time
+export async function saveSettings(next: SystemSettings, actor: SettingsActor) {
+  const settings = settingsSchema.parse(next)
+  const current = await loadSettings()
+  const changes = diffSettings(current, settings)
+  if (changes.length === 0) return { settings: current, changes }
+
+  const now = new Date().toISOString()
+  await blink.db.systemSettings.upsert({
+    id: SETTINGS_ID,
+    data: JSON.stringify(settings),
+    updatedBy: actor.id,
+    updatedAt: now
+  })
+  await blink.db.settingsHistory.create({
+    id: createId('settings'),
+    changedBy: actor.id,
+    changedByEmail: actor.email,
+    changes: JSON.stringify(changes),
+    createdAt: now
+  })
+  await recordAudit({
+    action: 'settings.update',
+    targetType: 'settings',
+    targetId: SETTINGS_ID,
+    targetLabel: 'System settings',
+    before: Object.fromEntries(changes.map(change => [change.field, change.before])),
+    after: Object.fromEntries(changes.map(change => [change.field, change.after]))
+  })
+  return { settings, changes }
+}
+
+export async function listSettingsHistory(limit = 20): Promise<SettingsHistoryEntry[]> {
+  return blink.db.settingsHistory.list({ orderBy: { createdAt: 'desc' }, limit })
+}
+
+export function parseSettingsChanges(entry: SettingsHistoryEntry): SettingsChange[] {
+  try {
+    const changes = JSON.parse(entry.changes)
+    return Array.isArray(changes) ? changes : []
+  } catch {
+    return []
+  }
+}
+
+export function formatSettingValue(field: SettingsKey, value: SettingsChange['before']) {
+  if (typeof value === 'boolean') return value ? 'On' : 'Off'
+  if (value === '') return '(empty)'
+  if (field === 'maintenanceEndsAt') return new Date(value).toLocaleString()
+  return String(value)
+}
@@ -0,0 +1,129 @@
+import { blink } from './blink'
+import { createId } from './utils'
+import { isHidden } from './moderation'
+import type { GeneratedImage } from './images'
+
+// One public link to an image. Anyone with the token can view it until it
+// expires or the owner revokes it.
+export interface ShareLink {
+  id: string
+  token: string
+  imageId: string
+  userId: string
+  hidePrompt: number // 0/1
+  views: number
+  expiresAt?: string | null
+  revokedAt?: string | null
+  lastViewedAt?: string | null
+  createdAt: string
+}
+
+export type ShareLinkState = 'active' | 'expired' | 'revoked'
+
+export const SHARE_EXPIRY_OPTIONS = [
+  { value: '0', label: 'Never' },
+  { value: '1', label: '1 day' },
+  { value: '7', label: '7 days' },
+  { value: '30', label: '30 days' }
+]
+
+export class ShareLinkError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ShareLinkError'
+  }
+}
+
+const TOKEN_ALPHABET = 'abcdefghijkmnopqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+const TOKEN_LENGTH = 22
+
+function generateToken() {
+  const bytes = crypto.getRandomValues(new Uint8Array(TOKEN_LENGTH))
+  return Array.from(bytes, byte => TOKEN_ALPHABET[byte % TOKEN_ALPHABET.length]).join('')
+}
+
+export const shareLinkUrl = (link: ShareLink) => `${window.location.origin}/s/${link.token}`
+
+export function shareLinkState(link: ShareLink, now = Date.now()): ShareLinkState {
+  if (link.revokedAt) return 'revoked'
+  if (link.expiresAt && Date.parse(link.expiresAt) <= now) return 'expired'
+  return 'active'
+}
+
+// An image can only be shared while it's live and visible
+export function assertShareable(image: GeneratedImage) {
+  if (image.deletedAt || image.removedAt) throw new ShareLinkError('This image is no longer available')
+  if (isHidden(image)) throw new ShareLinkError("Hidden images can't be shared")
+}
+
+export async function createShareLink(
+  image: GeneratedImage,
+  options: { hidePrompt: boolean; expiresInDays: number | null }
+): Promise<ShareLink> {
+  assertShareable(image)
+
+  const now = new Date()
+  const link: ShareLink = {
+    id: createId('share'),
+    token: generateToken(),
+    imageId: image.id,
+    userId: image.userId,
+    hidePrompt: options.hidePrompt ? 1 : 0,
+    views: 0,
+    expiresAt: options.expiresInDays
+      ? new Date(now.getTime() + options.expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+      : null,
+    revokedAt: null,
+    lastViewedAt: null,
+    createdAt: now.toISOString()
+  }
+  await blink.db.shareLinks.create(link)
+  return link
+}
+
+// The owner's links that haven't been revoked, newest first. Expired links
+// stay listed so their view counts remain visible.
+export async function listShareLinks(userId: string, imageId?: string): Promise<ShareLink[]> {
+  return blink.db.shareLinks.list({
+    where: { userId, revokedAt: { is: null }, ...(imageId ? { imageId } : {}) },
+    orderBy: { createdAt: 'desc' },
+    limit: 200
+  })
+}
+
+export async function revokeShareLink(link: ShareLink) {
+  const revokedAt = new Date().toISOString()
+  await blink.db.shareLinks.update(link.id, { revokedAt })
+  return revokedAt
+}
+
+export type SharedImage =
+  | { available: true; link: ShareLink; image: GeneratedImage }
+  | { available: false }
+
+// Resolves a token for the public page. Revoked, expired, hidden, removed and
+// deleted all look the same to the visitor.
+export async function resolveShareLink(token: string): Promise<SharedImage> {
+  const [link]: ShareLink[] = await blink.db.shareLinks.list({ where: { token }, limit: 1 })
+  if (!link || shareLinkState(link) !== 'active') return { available: false }
+
+  const image: GeneratedImage | null = await blink.db.generatedImages.get(link.imageId)
+  if (!image) return { available: false }
+  try {
+    assertShareable(image)
+  } catch {
+    return { available: false }
+  }
+  return { available: true, link, image }
+}
+
+// Counted once per browser session so reloads don't inflate the number
+export async function recordShareView(link: ShareLink) {
+  const key = `share-viewed:${link.token}`
+  if (sessionStorage.getItem(key)) return
+  sessionStorage.setItem(key, '1')
+  await blink.db.shareLinks.update(link.id, {
+    views: Number(link.views || 0) + 1,
+    lastViewedAt: new Date().toISOString()
+  })
+}
@@ -0,0 +1,83 @@
+import { blink } from './blink'
+
+export type UserStatus = 'active' | 'inactive' | 'banned'
+
+// The moderation state of one account, keyed by the user's id. Users without
+// a record are active.
+export interface UserStatusRecord {
+  id: string
+  userId: string
+  status: UserStatus
+  reason: string
+  // When a ban or deactivation lifts on its own; empty for indefinite
+  expiresAt?: string | null
+  updatedBy: string
+  updatedAt: string
+}
+
+export class AccountRestrictedError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AccountRestrictedError'
+  }
+}
+
+export function effectiveStatus(record: UserStatusRecord | null, now = Date.now()): UserStatus {
+  if (!record) return 'active'
+  if (record.expiresAt && Date.parse(record.expiresAt) <= now) return 'active'
+  return record.status
+}
+
+export async function getUserStatus(userId: string): Promise<UserStatusRecord | null> {
+  return blink.db.userStatuses.get(userId)
+}
+
+// Status records for the given users, keyed by user id
+export async function listUserStatuses(userIds: string[]): Promise<Record<string, UserStatusRecord>> {
+  if (userIds.length === 0) return {}
+  const records: UserStatusRecord[] = await blink.db.userStatuses.list({
+    where: { id: { in: userIds } },
+    limit: userIds.length
+  })
+  return Object.fromEntries(records.map(record => [record.userId, record]))
+}
+
+// Users whose status is currently in force; expired records don't count
+export async function countUserStatuses(status: Exclude<UserStatus, 'active'>, now = new Date()): Promise<number> {
+  return blink.db.userStatuses.count({
+    where: {
+      AND: [
+        { status },
+        { OR: [{ expiresAt: { is: null } }, { expiresAt: '' }, { expiresAt: { gt: now.toISOString() } }] }
+      ]
+    }
+  })
+}
+
+export async function setUserStatus(
+  userId: string,
+  status: UserStatus,
+  adminId: string,
+  options: { reason?: string; expiresAt?: string | null } = {}
+): Promise<UserStatusRecord> {
+  const record: UserStatusRecord = {
+    id: userId,
+    userId,
+    status,
+    reason: status === 'active' ? '' : options.reason?.trim() ?? '',
+    expiresAt: status === 'active' ? null : options.expiresAt ?? null,
+    updatedBy: adminId,
+    updatedAt: new Date().toISOString()
+  }
+  await blink.db.userStatuses.upsert(record)
+  return record
+}
+
+// Checked right before generating, so a ban takes effect even for a user
+// who still has the app open
+export async function assertAccountActive(userId: string) {
+  const record = await getUserStatus(userId)
+  const status = effectiveStatus(record)
+  if (status === 'banned') throw new AccountRestrictedError('Your account has been banned')
+  if (status === 'inactive') throw new AccountRestrictedError('Your account has been deactivated')
+}
@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
 import { Badge } from '../components/ui/badge'
 import { Button } from '../components/ui/button'
@@ -10,15 +11,23 @@ import {
   Clock,
   Zap,
   AlertCircle,
-  CheckCircle
+  CheckCircle,
+  Timer,
+  Flag
 } from 'lucide-react'
-import { blink } from '../lib/blink'
+import { listRateLimitHits, type RateLimitHit } from '../lib/rate-limit'
+import { countReports } from '../lib/reports'
+import { getOverviewStats, listRecentImages, listRecentUsers, listUsersById } from '../lib/metrics'
+import { purgeExpiredTrash } from '../lib/images'
+import { useSettings } from '../hooks/use-settings'
 
 interface DashboardStats {
   totalUsers: number
   totalImages: number
+  trashedImages: number
   imagesThisMonth: number
   activeUsers: number
+  openReports: number
   systemStatus: 'healthy' | 'warning' | 'error'
 }
 
@@ -35,54 +44,57 @@ export function AdminDashboard() {
   const [stats, setStats] = useState<DashboardStats>({
     totalUsers: 0,
     totalImages: 0,
+    trashedImages: 0,
     imagesThisMonth: 0,
     activeUsers: 0,
+    openReports: 0,
     systemStatus: 'healthy'
   })
   const [recentActivity, setRecentActivity] = useState<RecentActivity[]>([])
+  const [rateLimitHits, setRateLimitHits] = useState<(RateLimitHit & { userEmail?: string })[]>([])
   const [loading, setLoading] = useState(true)
+  const { settings, loading: settingsLoading } = useSettings()
 
   useEffect(() => {
-    loadDashboardData()
-  }, [])
+    // Wait for the real retention period so nothing is purged early
+    if (!settingsLoading) loadDashboardData(settings.trashRetentionDays)
+  }, [settingsLoading, settings.trashRetentionDays])
 
-  const loadDashboardData = async () => {
+  const loadDashboardData = async (retentionDays: number) => {
+    // Applies trash retention for every user, including ones who never open
+    // their trash, before the storage figures are counted
     try {
-      // Load users
-      const users = await blink.db.users.list({ limit: 1000 })
-      
-      // Load images
-      const images = await blink.db.generatedImages.list({ limit: 1000 })
-      
-      // Calculate stats
-      const now = new Date()
-      const thisMonth = new Date(now.getFullYear(), now.getMonth(), 1)
-      const imagesThisMonth = images.filter(img => 
-        new Date(img.createdAt) >= thisMonth
-      ).length
+      await purgeExpiredTrash(null, retentionDays)
+    } catch (error) {
+      console.error('Failed to purge expired trash:', error)
+    }
 
-      // Simulate active users (users who generated images in last 7 days)
-      const lastWeek = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000)
-      const activeUserIds = new Set(
-        images
-          .filter(img => new Date(img.createdAt) >= lastWeek)
-          .map(img => img.userId)
-      )
+    try {
+      const [overview, openReports, images, recentUsers, hits] = await Promise.all([
+        getOverviewStats(),
+        countReports('open'),
+        listRecentImages(5),
+        listRecentUsers(3),
+        listRateLimitHits(20)
+      ])
 
       setStats({
-        totalUsers: users.length,
-        totalImages: images.length,
-        imagesThisMonth,
-        activeUsers: activeUserIds.size,
+        ...overview,
+        openReports,
         systemStatus: 'healthy'
       })
 
+      const users = await listUsersById([
+        ...images.map(img => img.userId),
+        ...hits.map(hit => hit.userId)
+      ])
+
       // Generate recent activity
       const activities: RecentActivity[] = []
       
       // Add recent image generations
-      images.slice(0, 5).forEach(img => {
-        const user = users.find(u => u.id === img.userId)
+      images.forEach(img => {
+        const user = users[img.userId]
         activities.push({
           id: `img-${img.id}`,
           type: 'image_generated',
@@ -94,7 +106,7 @@ export function AdminDashboard() {
       })
 
       // Add recent user registrations
-      users.slice(0, 3).forEach(user => {
+      recentUsers.forEach(user => {
         activities.push({
           id: `user-${user.id}`,
           type: 'user_joined',
@@ -109,6 +121,11 @@ export function AdminDashboard() {
       activities.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
       setRecentActivity(activities.slice(0, 10))
 
+      setRateLimitHits(hits.map(hit => ({
+        ...hit,
+        userEmail: users[hit.userId]?.email
+      })))
+
     } catch (error) {
       console.error('Failed to load dashboard data:', error)
     } finally {
@@ -146,8 +163,8 @@ export function AdminDashboard() {
         <div className="flex items-center justify-between">
           <h1 className="text-3xl font-bold">Dashboard</h1>
         </div>
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-          {[1, 2, 3, 4].map(i => (
+        <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-6">
+          {[1, 2, 3, 4, 5].map(i => (
             <Card key={i}>
               <CardContent className="p-6">
                 <div className="animate-pulse">
@@ -172,14 +189,14 @@ export function AdminDashboard() {
             Welcome to your AI Image Generator admin panel
           </p>
         </div>
-        <Button onClick={loadDashboardData} variant="outline">
+        <Button onClick={() => loadDashboardData(settings.trashRetentionDays)} variant="outline">
           <Activity className="h-4 w-4 mr-2" />
           Refresh
         </Button>
       </div>
 
       {/* Stats Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-6">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Total Users</CardTitle>
@@ -201,7 +218,7 @@ export function AdminDashboard() {
           <CardContent>
             <div className="text-2xl font-bold">{stats.totalImages}</div>
             <p className="text-xs text-muted-foreground">
-              Images generated
+              Images stored{stats.trashedImages > 0 && ` · ${stats.trashedImages} in trash`}
             </p>
           </CardContent>
         </Card>
@@ -231,6 +248,22 @@ export function AdminDashboard() {
             </p>
           </CardContent>
         </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Reports</CardTitle>
+            <Flag className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-center space-x-2">
+              <div className="text-2xl font-bold">{stats.openReports}</div>
+              {stats.openReports > 0 && <Badge variant="destructive">Needs review</Badge>}
+            </div>
+            <Link to="/admin/reports" className="text-xs text-muted-foreground hover:underline">
+              Open reports
+            </Link>
+          </CardContent>
+        </Card>
       </div>
 
       {/* System Status & Recent Activity */}
@@ -304,6 +337,38 @@ export function AdminDashboard() {
           </CardContent>
         </Card>
       </div>
+
+      {/* Rate Limit Hits */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Timer className="h-4 w-4" />
+            <span>Rate Limit Hits</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {rateLimitHits.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No requests have been rate limited</p>
+          ) : (
+            <div className="space-y-3">
+              {rateLimitHits.map((hit) => (
+                <div key={hit.id} className="flex items-center justify-between text-sm">
+                  <div className="flex items-center space-x-2">
+                    <AlertCircle className="h-4 w-4 text-yellow-500" />
+                    <span>{hit.userEmail || hit.userId}</span>
+                    <Badge variant="outline">{hit.limit}/min</Badge>
+                  </div>
+                  <div className="flex items-center space-x-2 text-xs text-muted-foreground">
+                    <span>retry after {Math.ceil(hit.retryAfterMs / 1000)}s</span>
+                    <span>•</span>
+                    <span>{new Date(hit.createdAt).toLocaleString()}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   )
 }
\ No newline at end of file
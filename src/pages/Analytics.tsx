@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react'
-import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card'
 import { Button } from '../components/ui/button'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select'
 import { 
@@ -8,107 +8,81 @@ import {
   Users, 
   Image as ImageIcon,
   Calendar,
-  Download
+  Download,
+  ShieldAlert,
+  RefreshCw,
+  Layers
 } from 'lucide-react'
-import { blink } from '../lib/blink'
+import { ActivityChart } from '../components/analytics/ActivityChart'
+import { UserGrowthChart } from '../components/analytics/UserGrowthChart'
+import { BreakdownChart } from '../components/analytics/BreakdownChart'
+import { TopPromptsChart } from '../components/analytics/TopPromptsChart'
+import { DayDetailsDialog } from '../components/analytics/DayDetailsDialog'
+import { countPolicyEvents, type PolicySeverity } from '../lib/policy'
+import {
+  getOverviewStats,
+  getDailyStats,
+  countActiveUsers,
+  rebuildMetrics,
+  listTopPrompts,
+  dayKey,
+  type DailyStat
+} from '../lib/metrics'
+import { cn } from '../lib/utils'
+import { usePermissions } from '../hooks/use-permissions'
+import toast from 'react-hot-toast'
 
 interface AnalyticsData {
   totalUsers: number
   totalImages: number
-  dailyStats: Array<{
-    date: string
-    users: number
-    images: number
-  }>
+  // Distinct users who generated images in the selected period
+  activeUsers: number
+  dailyStats: DailyStat[]
   topPrompts: Array<{
     prompt: string
     count: number
   }>
-  userGrowth: Array<{
-    month: string
-    users: number
-  }>
+  // Prompts flagged by the content policy in the selected period
+  policyEvents: Record<PolicySeverity, number>
 }
 
 export function Analytics() {
   const [data, setData] = useState<AnalyticsData>({
     totalUsers: 0,
     totalImages: 0,
+    activeUsers: 0,
     dailyStats: [],
     topPrompts: [],
-    userGrowth: []
+    policyEvents: { warn: 0, review: 0, block: 0 }
   })
   const [loading, setLoading] = useState(true)
   const [timeRange, setTimeRange] = useState('30d')
+  const [rebuilding, setRebuilding] = useState(false)
+  const { can } = usePermissions()
+  // The day drilled into from a chart
+  const [selectedDay, setSelectedDay] = useState<string | null>(null)
 
   const loadAnalytics = useCallback(async () => {
     try {
-      // Load users and images
-      const users = await blink.db.users.list({ limit: 1000 })
-      const images = await blink.db.generatedImages.list({ limit: 1000 })
-
-      // Calculate date range
       const now = new Date()
       const daysBack = timeRange === '7d' ? 7 : timeRange === '30d' ? 30 : 90
       const startDate = new Date(now.getTime() - daysBack * 24 * 60 * 60 * 1000)
 
-      // Filter data by time range
-      const filteredImages = images.filter(img => 
-        new Date(img.createdAt) >= startDate
-      )
-
-      // Generate daily stats
-      const dailyStats = []
-      for (let i = daysBack - 1; i >= 0; i--) {
-        const date = new Date(now.getTime() - i * 24 * 60 * 60 * 1000)
-        const dateStr = date.toISOString().split('T')[0]
-        
-        const dayImages = filteredImages.filter(img => 
-          img.createdAt.startsWith(dateStr)
-        )
-        
-        const dayUsers = new Set(dayImages.map(img => img.userId)).size
-
-        dailyStats.push({
-          date: dateStr,
-          users: dayUsers,
-          images: dayImages.length
-        })
-      }
-
-      // Calculate top prompts
-      const promptCounts = filteredImages.reduce((acc, img) => {
-        const prompt = img.prompt.slice(0, 50) + (img.prompt.length > 50 ? '...' : '')
-        acc[prompt] = (acc[prompt] || 0) + 1
-        return acc
-      }, {} as Record<string, number>)
-
-      const topPrompts = Object.entries(promptCounts)
-        .sort(([, a], [, b]) => b - a)
-        .slice(0, 10)
-        .map(([prompt, count]) => ({ prompt, count }))
-
-      // Calculate user growth by month
-      const monthlyUsers = users.reduce((acc, user) => {
-        const month = new Date(user.createdAt || new Date()).toISOString().slice(0, 7)
-        acc[month] = (acc[month] || 0) + 1
-        return acc
-      }, {} as Record<string, number>)
-
-      const userGrowth = Object.entries(monthlyUsers)
-        .sort(([a], [b]) => a.localeCompare(b))
-        .slice(-6)
-        .map(([month, users]) => ({ 
-          month: new Date(month + '-01').toLocaleDateString('en-US', { month: 'short', year: 'numeric' }), 
-          users 
-        }))
+      const [overview, dailyStats, activeUsers, policyEvents, topPrompts] = await Promise.all([
+        getOverviewStats(now),
+        getDailyStats(daysBack, now),
+        countActiveUsers(startDate),
+        countPolicyEvents(startDate),
+        listTopPrompts(dayKey(new Date(now.getTime() - (daysBack - 1) * 24 * 60 * 60 * 1000)), dayKey(now))
+      ])
 
       setData({
-        totalUsers: users.length,
-        totalImages: images.length,
+        totalUsers: overview.totalUsers,
+        totalImages: overview.totalImages,
+        activeUsers,
         dailyStats,
         topPrompts,
-        userGrowth
+        policyEvents
       })
     } catch (error) {
       console.error('Failed to load analytics:', error)
@@ -121,10 +95,30 @@ export function Analytics() {
     loadAnalytics()
   }, [loadAnalytics])
 
+  // Recomputes the rollups from every user and image, for data recorded
+  // before they existed or counts that drifted
+  const handleRebuild = async () => {
+    if (!can('rebuildMetrics')) {
+      toast.error("You don't have permission to rebuild metrics")
+      return
+    }
+    setRebuilding(true)
+    try {
+      await rebuildMetrics()
+      toast.success('Metrics rebuilt')
+      await loadAnalytics()
+    } catch (error) {
+      console.error('Failed to rebuild metrics:', error)
+      toast.error('Failed to rebuild metrics')
+    } finally {
+      setRebuilding(false)
+    }
+  }
+
   const exportData = () => {
     const csvContent = [
-      ['Date', 'Users', 'Images'],
-      ...data.dailyStats.map(stat => [stat.date, stat.users, stat.images])
+      ['Date', 'Active Users', 'New Users', 'Images'],
+      ...data.dailyStats.map(stat => [stat.date, stat.activeUsers, stat.newUsers, stat.images])
     ].map(row => row.join(',')).join('\n')
 
     const blob = new Blob([csvContent], { type: 'text/csv' })
@@ -144,8 +138,8 @@ export function Analytics() {
         <div className="flex items-center justify-between">
           <h1 className="text-3xl font-bold">Analytics</h1>
         </div>
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-          {[1, 2, 3, 4].map(i => (
+        <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-6">
+          {[1, 2, 3, 4, 5].map(i => (
             <Card key={i}>
               <CardContent className="p-6">
                 <div className="animate-pulse">
@@ -181,6 +175,12 @@ export function Analytics() {
               <SelectItem value="90d">Last 90 days</SelectItem>
             </SelectContent>
           </Select>
+          {can('rebuildMetrics') && (
+            <Button onClick={handleRebuild} variant="outline" disabled={rebuilding}>
+              <RefreshCw className={cn('h-4 w-4 mr-2', rebuilding && 'animate-spin')} />
+              Rebuild
+            </Button>
+          )}
           <Button onClick={exportData} variant="outline">
             <Download className="h-4 w-4 mr-2" />
             Export
@@ -189,7 +189,7 @@ export function Analytics() {
       </div>
 
       {/* Overview Stats */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-6">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Total Users</CardTitle>
@@ -238,89 +238,70 @@ export function Analytics() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              {new Set(data.dailyStats.flatMap(stat => Array(stat.users).fill(0))).size}
+              {data.activeUsers}
             </div>
             <p className="text-xs text-muted-foreground">
               In selected period
             </p>
           </CardContent>
         </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Blocked Prompts</CardTitle>
+            <ShieldAlert className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{data.policyEvents.block}</div>
+            <p className="text-xs text-muted-foreground">
+              {data.policyEvents.warn} warned · {data.policyEvents.review} held for review
+            </p>
+          </CardContent>
+        </Card>
       </div>
 
       {/* Charts */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        {/* Daily Activity */}
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center space-x-2">
               <BarChart3 className="h-4 w-4" />
               <span>Daily Activity</span>
             </CardTitle>
+            <CardDescription>Images and active users per day. Click a day for details.</CardDescription>
           </CardHeader>
           <CardContent>
-            <div className="space-y-4">
-              {data.dailyStats.slice(-7).map((stat) => (
-                <div key={stat.date} className="flex items-center space-x-4">
-                  <div className="w-20 text-sm text-muted-foreground">
-                    {new Date(stat.date).toLocaleDateString('en-US', { 
-                      month: 'short', 
-                      day: 'numeric' 
-                    })}
-                  </div>
-                  <div className="flex-1">
-                    <div className="flex items-center space-x-2 mb-1">
-                      <div className="w-2 h-2 bg-primary rounded-full"></div>
-                      <span className="text-sm">Images: {stat.images}</span>
-                    </div>
-                    <div className="w-full bg-secondary rounded-full h-2">
-                      <div 
-                        className="bg-primary h-2 rounded-full" 
-                        style={{ 
-                          width: `${Math.max(5, (stat.images / Math.max(...data.dailyStats.map(s => s.images))) * 100)}%` 
-                        }}
-                      ></div>
-                    </div>
-                  </div>
-                  <div className="text-sm font-medium">{stat.users} users</div>
-                </div>
-              ))}
-            </div>
+            <ActivityChart stats={data.dailyStats} onSelectDay={setSelectedDay} />
           </CardContent>
         </Card>
 
-        {/* User Growth */}
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center space-x-2">
               <TrendingUp className="h-4 w-4" />
               <span>User Growth</span>
             </CardTitle>
+            <CardDescription>Registered users at the end of each day</CardDescription>
           </CardHeader>
           <CardContent>
-            <div className="space-y-4">
-              {data.userGrowth.map((growth) => (
-                <div key={growth.month} className="flex items-center space-x-4">
-                  <div className="w-20 text-sm text-muted-foreground">
-                    {growth.month}
-                  </div>
-                  <div className="flex-1">
-                    <div className="w-full bg-secondary rounded-full h-2">
-                      <div 
-                        className="bg-accent h-2 rounded-full" 
-                        style={{ 
-                          width: `${Math.max(5, (growth.users / Math.max(...data.userGrowth.map(g => g.users))) * 100)}%` 
-                        }}
-                      ></div>
-                    </div>
-                  </div>
-                  <div className="text-sm font-medium">{growth.users} new</div>
-                </div>
-              ))}
-            </div>
+            <UserGrowthChart stats={data.dailyStats} totalUsers={data.totalUsers} onSelectDay={setSelectedDay} />
           </CardContent>
         </Card>
       </div>
 
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Layers className="h-4 w-4" />
+            <span>Images by Setting</span>
+          </CardTitle>
+          <CardDescription>Daily images split by the size, quality or style they were generated with</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <BreakdownChart stats={data.dailyStats} onSelectDay={setSelectedDay} />
+        </CardContent>
+      </Card>
+
       {/* Top Prompts */}
       <Card>
         <CardHeader>
@@ -330,33 +311,11 @@ export function Analytics() {
           </CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="space-y-4">
-            {data.topPrompts.length === 0 ? (
-              <p className="text-sm text-muted-foreground">No prompts data available</p>
-            ) : (
-              data.topPrompts.map((prompt, index) => (
-                <div key={index} className="flex items-center space-x-4">
-                  <div className="w-8 h-8 bg-primary/10 rounded-full flex items-center justify-center text-sm font-medium">
-                    {index + 1}
-                  </div>
-                  <div className="flex-1">
-                    <p className="text-sm font-medium line-clamp-1">{prompt.prompt}</p>
-                    <div className="w-full bg-secondary rounded-full h-1 mt-1">
-                      <div 
-                        className="bg-primary h-1 rounded-full" 
-                        style={{ 
-                          width: `${Math.max(5, (prompt.count / Math.max(...data.topPrompts.map(p => p.count))) * 100)}%` 
-                        }}
-                      ></div>
-                    </div>
-                  </div>
-                  <div className="text-sm font-medium">{prompt.count}</div>
-                </div>
-              ))
-            )}
-          </div>
+          <TopPromptsChart prompts={data.topPrompts} />
         </CardContent>
       </Card>
+
+      <DayDetailsDialog stats={data.dailyStats} date={selectedDay} onDateChange={setSelectedDay} />
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,273 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
+import { Button } from '../components/ui/button'
+import { Input } from '../components/ui/input'
+import { Label } from '../components/ui/label'
+import { Badge } from '../components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '../components/ui/table'
+import { Download, FileText, Loader2, ScrollText } from 'lucide-react'
+import {
+  listAuditEntries,
+  parseAuditValue,
+  auditToCsv,
+  auditToJson,
+  AUDIT_ACTIONS,
+  AUDIT_PAGE_SIZE,
+  AUDIT_EXPORT_LIMIT,
+  type AuditAction,
+  type AuditEntry,
+  type AuditQuery
+} from '../lib/audit'
+import { saveBlob } from '../lib/download'
+import toast from 'react-hot-toast'
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return ''
+  if (typeof value === 'object') {
+    return Object.entries(value as Record<string, unknown>)
+      .map(([key, v]) => `${key}: ${typeof v === 'object' && v !== null ? JSON.stringify(v) : String(v)}`)
+      .join(', ')
+  }
+  return String(value)
+}
+
+// Date inputs give local calendar days; widen them to cover the whole day
+const startOfDay = (date: string) => date ? new Date(`${date}T00:00:00`).toISOString() : undefined
+const endOfDay = (date: string) => date ? new Date(`${date}T23:59:59.999`).toISOString() : undefined
+
+export function AuditLog() {
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [hasMore, setHasMore] = useState(false)
+  const [exporting, setExporting] = useState(false)
+  const [actionFilter, setActionFilter] = useState<AuditAction | 'all'>('all')
+  const [actorFilter, setActorFilter] = useState('')
+  const [targetFilter, setTargetFilter] = useState('')
+  const [debouncedActor, setDebouncedActor] = useState('')
+  const [debouncedTarget, setDebouncedTarget] = useState('')
+  const [fromDate, setFromDate] = useState('')
+  const [toDate, setToDate] = useState('')
+  const requestRef = useRef(0)
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setDebouncedActor(actorFilter)
+      setDebouncedTarget(targetFilter)
+    }, 300)
+    return () => clearTimeout(timeout)
+  }, [actorFilter, targetFilter])
+
+  const query = useMemo<AuditQuery>(() => ({
+    action: actionFilter === 'all' ? undefined : actionFilter,
+    actor: debouncedActor.trim() || undefined,
+    target: debouncedTarget.trim() || undefined,
+    from: startOfDay(fromDate),
+    to: endOfDay(toDate)
+  }), [actionFilter, debouncedActor, debouncedTarget, fromDate, toDate])
+
+  const loadEntries = useCallback(async (after: AuditEntry | null) => {
+    const request = ++requestRef.current
+    setLoading(true)
+    try {
+      const page = await listAuditEntries(query, AUDIT_PAGE_SIZE, after)
+      if (request !== requestRef.current) return
+      setEntries(prev => after ? [...prev, ...page] : page)
+      setHasMore(page.length === AUDIT_PAGE_SIZE)
+    } catch (error) {
+      console.error('Failed to load audit log:', error)
+      toast.error('Failed to load audit log')
+    } finally {
+      if (request === requestRef.current) setLoading(false)
+    }
+  }, [query])
+
+  useEffect(() => {
+    loadEntries(null)
+  }, [loadEntries])
+
+  const handleExport = async (format: 'csv' | 'json') => {
+    setExporting(true)
+    try {
+      const all = await listAuditEntries(query, AUDIT_EXPORT_LIMIT)
+      const blob = format === 'csv'
+        ? new Blob([auditToCsv(all)], { type: 'text/csv' })
+        : new Blob([auditToJson(all)], { type: 'application/json' })
+      saveBlob(blob, `audit-log-${new Date().toISOString().slice(0, 10)}.${format}`)
+      if (all.length === AUDIT_EXPORT_LIMIT) {
+        toast(`Exported the newest ${AUDIT_EXPORT_LIMIT} entries. Narrow the filters to export older ones.`)
+      }
+    } catch (error) {
+      console.error('Failed to export audit log:', error)
+      toast.error('Failed to export audit log')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const clearFilters = () => {
+    setActionFilter('all')
+    setActorFilter('')
+    setTargetFilter('')
+    setFromDate('')
+    setToDate('')
+  }
+
+  const hasFilters = actionFilter !== 'all' || !!actorFilter || !!targetFilter || !!fromDate || !!toDate
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Audit Log</h1>
+          <p className="text-muted-foreground">
+            Every privileged action, who took it and what it changed
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => handleExport('csv')} disabled={exporting}>
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+          <Button variant="outline" onClick={() => handleExport('json')} disabled={exporting}>
+            <FileText className="h-4 w-4 mr-2" />
+            Export JSON
+          </Button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div className="space-y-2">
+              <Label>Action</Label>
+              <Select value={actionFilter} onValueChange={(value) => setActionFilter(value as AuditAction | 'all')}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All actions</SelectItem>
+                  {(Object.keys(AUDIT_ACTIONS) as AuditAction[]).map(action => (
+                    <SelectItem key={action} value={action}>{AUDIT_ACTIONS[action]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="auditActor">Actor</Label>
+              <Input
+                id="auditActor"
+                value={actorFilter}
+                onChange={(e) => setActorFilter(e.target.value)}
+                placeholder="Email"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="auditTarget">Target</Label>
+              <Input
+                id="auditTarget"
+                value={targetFilter}
+                onChange={(e) => setTargetFilter(e.target.value)}
+                placeholder="Email, name or id"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="auditFrom">From</Label>
+              <Input id="auditFrom" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="auditTo">To</Label>
+              <Input id="auditTo" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+          </div>
+          {hasFilters && (
+            <Button variant="ghost" size="sm" className="mt-3" onClick={clearFilters}>
+              Clear filters
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Entries */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <ScrollText className="h-4 w-4" />
+            <span>Entries</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {entries.length === 0 && !loading ? (
+            <div className="text-center py-8">
+              <ScrollText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-semibold mb-2">No entries</h3>
+              <p className="text-muted-foreground">
+                {hasFilters ? 'Try adjusting your filters' : 'Admin actions will be recorded here'}
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Actor</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Target</TableHead>
+                  <TableHead>Before</TableHead>
+                  <TableHead>After</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                      {new Date(entry.createdAt).toLocaleString()}
+                    </TableCell>
+                    <TableCell className="text-sm">{entry.actorEmail}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className="whitespace-nowrap">
+                        {AUDIT_ACTIONS[entry.action] ?? entry.action}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <p className="truncate max-w-[200px]" title={entry.targetId}>{entry.targetLabel}</p>
+                      <p className="text-xs text-muted-foreground capitalize">{entry.targetType}</p>
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground max-w-[240px]">
+                      {formatValue(parseAuditValue(entry.before))}
+                    </TableCell>
+                    <TableCell className="text-xs max-w-[240px]">
+                      {formatValue(parseAuditValue(entry.after))}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {loading && (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          )}
+          {hasMore && !loading && (
+            <div className="flex justify-center pt-4">
+              <Button variant="outline" onClick={() => loadEntries(entries[entries.length - 1])}>
+                Load more
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
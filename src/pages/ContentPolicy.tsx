@@ -0,0 +1,306 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card'
+import { Button } from '../components/ui/button'
+import { Input } from '../components/ui/input'
+import { Label } from '../components/ui/label'
+import { Badge } from '../components/ui/badge'
+import { Switch } from '../components/ui/switch'
+import { Textarea } from '../components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '../components/ui/table'
+import { FlaskConical, Plus, ShieldAlert, Trash2 } from 'lucide-react'
+import { blink } from '../lib/blink'
+import {
+  listPolicyRules,
+  createPolicyRule,
+  updatePolicyRule,
+  deletePolicyRule,
+  evaluatePrompt,
+  validateRulePattern,
+  POLICY_SEVERITIES,
+  type PolicyRule,
+  type PolicyRuleKind,
+  type PolicySeverity
+} from '../lib/policy'
+import toast from 'react-hot-toast'
+
+const SEVERITY_BADGES: Record<PolicySeverity, { variant: 'secondary' | 'outline' | 'destructive'; className?: string }> = {
+  warn: { variant: 'outline', className: 'border-amber-300 text-amber-700' },
+  review: { variant: 'secondary' },
+  block: { variant: 'destructive' }
+}
+
+const severityLabel = (severity: PolicySeverity) =>
+  POLICY_SEVERITIES.find(option => option.value === severity)?.label ?? severity
+
+function SeverityBadge({ severity }: { severity: PolicySeverity }) {
+  const badge = SEVERITY_BADGES[severity]
+  return <Badge variant={badge.variant} className={badge.className}>{severityLabel(severity)}</Badge>
+}
+
+export function ContentPolicy() {
+  const [rules, setRules] = useState<PolicyRule[]>([])
+  const [loading, setLoading] = useState(true)
+  const [kind, setKind] = useState<PolicyRuleKind>('keyword')
+  const [pattern, setPattern] = useState('')
+  const [severity, setSeverity] = useState<PolicySeverity>('block')
+  const [note, setNote] = useState('')
+  const [creating, setCreating] = useState(false)
+  const [testPrompt, setTestPrompt] = useState('')
+
+  const loadRules = useCallback(async () => {
+    try {
+      setRules(await listPolicyRules())
+    } catch (error) {
+      console.error('Failed to load policy rules:', error)
+      toast.error('Failed to load policy rules')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadRules()
+  }, [loadRules])
+
+  const patternError = pattern ? validateRulePattern(kind, pattern) : null
+  const testVerdict = testPrompt.trim() ? evaluatePrompt(testPrompt, rules) : null
+
+  const handleCreate = async () => {
+    const error = validateRulePattern(kind, pattern)
+    if (error) {
+      toast.error(error)
+      return
+    }
+
+    setCreating(true)
+    try {
+      const admin = await blink.auth.me()
+      const rule = await createPolicyRule(admin.id, { kind, pattern, severity, note })
+      setRules(prev => [rule, ...prev])
+      setPattern('')
+      setNote('')
+      toast.success('Rule added')
+    } catch (error) {
+      console.error('Failed to add policy rule:', error)
+      toast.error('Failed to add rule')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const handleUpdate = async (rule: PolicyRule, changes: Partial<Pick<PolicyRule, 'severity' | 'enabled'>>) => {
+    setRules(prev => prev.map(r => r.id === rule.id ? { ...r, ...changes } : r))
+    try {
+      await updatePolicyRule(rule, changes)
+    } catch (error) {
+      console.error('Failed to update policy rule:', error)
+      toast.error('Failed to update rule')
+      setRules(prev => prev.map(r => r.id === rule.id ? rule : r))
+    }
+  }
+
+  const handleDelete = async (rule: PolicyRule) => {
+    try {
+      await deletePolicyRule(rule)
+      setRules(prev => prev.filter(r => r.id !== rule.id))
+      toast.success('Rule deleted')
+    } catch (error) {
+      console.error('Failed to delete policy rule:', error)
+      toast.error('Failed to delete rule')
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold">Content Policy</h1>
+        <p className="text-muted-foreground">
+          Prompts are checked against these rules before they are queued
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Plus className="h-4 w-4" />
+              <span>Add Rule</span>
+            </CardTitle>
+            <CardDescription>
+              Keywords match whole words. Both keywords and patterns ignore case.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select value={kind} onValueChange={(value) => setKind(value as PolicyRuleKind)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="keyword">Keyword</SelectItem>
+                    <SelectItem value="regex">Regular expression</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Severity</Label>
+                <Select value={severity} onValueChange={(value) => setSeverity(value as PolicySeverity)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {POLICY_SEVERITIES.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {POLICY_SEVERITIES.find(option => option.value === severity)?.description}
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="rulePattern">{kind === 'keyword' ? 'Keyword or phrase' : 'Pattern'}</Label>
+              <Input
+                id="rulePattern"
+                value={pattern}
+                onChange={(e) => setPattern(e.target.value)}
+                placeholder={kind === 'keyword' ? 'e.g. gore' : 'e.g. \\bnud(e|ity)\\b'}
+                className={kind === 'regex' ? 'font-mono' : undefined}
+              />
+              {patternError && <p className="text-sm text-destructive">{patternError}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ruleNote">Note</Label>
+              <Input
+                id="ruleNote"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Why this rule exists"
+              />
+            </div>
+            <Button onClick={handleCreate} disabled={creating || !pattern.trim() || !!patternError}>
+              Add rule
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <FlaskConical className="h-4 w-4" />
+              <span>Test a Prompt</span>
+            </CardTitle>
+            <CardDescription>
+              Checks against the enabled rules below without generating anything
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Textarea
+              value={testPrompt}
+              onChange={(e) => setTestPrompt(e.target.value)}
+              placeholder="Type a prompt to see which rules it triggers"
+              rows={4}
+            />
+            {testVerdict && (
+              testVerdict.severity ? (
+                <div className="space-y-2">
+                  <div className="flex items-center space-x-2 text-sm">
+                    <span>Result:</span>
+                    <SeverityBadge severity={testVerdict.severity} />
+                  </div>
+                  <ul className="space-y-1 text-sm">
+                    {testVerdict.matches.map(match => (
+                      <li key={match.ruleId} className="flex items-center justify-between gap-2">
+                        <span className="truncate">
+                          <code className="text-xs">{match.pattern}</code> matched “{match.excerpt}”
+                        </span>
+                        <SeverityBadge severity={match.severity} />
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ) : (
+                <p className="text-sm text-green-600">No rules match this prompt</p>
+              )
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <ShieldAlert className="h-4 w-4" />
+            <span>Rules ({rules.length})</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {!loading && rules.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No rules yet. Every prompt is allowed.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Rule</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Severity</TableHead>
+                  <TableHead>Enabled</TableHead>
+                  <TableHead className="w-[70px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map(rule => (
+                  <TableRow key={rule.id}>
+                    <TableCell>
+                      <div className="font-mono text-sm break-all">{rule.pattern}</div>
+                      {rule.note && <div className="text-xs text-muted-foreground">{rule.note}</div>}
+                    </TableCell>
+                    <TableCell className="text-sm">{rule.kind === 'keyword' ? 'Keyword' : 'Regex'}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={rule.severity}
+                        onValueChange={(value) => handleUpdate(rule, { severity: value as PolicySeverity })}
+                      >
+                        <SelectTrigger className="w-[150px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {POLICY_SEVERITIES.map(option => (
+                            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={!!Number(rule.enabled)}
+                        onCheckedChange={(checked) => handleUpdate(rule, { enabled: checked ? 1 : 0 })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button size="sm" variant="ghost" onClick={() => handleDelete(rule)} title="Delete rule">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
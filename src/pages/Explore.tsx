@@ -0,0 +1,201 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { Card, CardContent } from '../components/ui/card'
+import { Button } from '../components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select'
+import { ImageLightbox } from '../components/gallery/ImageLightbox'
+import { ReportImageDialog } from '../components/gallery/ReportImageDialog'
+import { Compass, Flag, Heart, Loader2 } from 'lucide-react'
+import { blink } from '../lib/blink'
+import {
+  listExploreFeed,
+  listCreators,
+  listLikedImageIds,
+  setImageLiked,
+  EXPLORE_PAGE_SIZE,
+  type Creator,
+  type ExploreSort
+} from '../lib/explore'
+import type { GeneratedImage } from '../lib/images'
+import { cn } from '../lib/utils'
+import toast from 'react-hot-toast'
+
+export function Explore() {
+  const [userId, setUserId] = useState<string | null>(null)
+  const [sort, setSort] = useState<ExploreSort>('newest')
+  const [images, setImages] = useState<GeneratedImage[]>([])
+  const [creators, setCreators] = useState<Record<string, Creator>>({})
+  const [likedIds, setLikedIds] = useState<Set<string>>(new Set())
+  const [loading, setLoading] = useState(true)
+  const [hasMore, setHasMore] = useState(false)
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null)
+  const [reportingImage, setReportingImage] = useState<GeneratedImage | null>(null)
+  const requestRef = useRef(0)
+
+  useEffect(() => {
+    blink.auth.me()
+      .then(user => setUserId(user.id))
+      .catch(error => console.error('Failed to load user:', error))
+  }, [])
+
+  const loadFeed = useCallback(async (offset: number) => {
+    if (!userId) return
+    const request = ++requestRef.current
+    setLoading(true)
+    try {
+      const page = await listExploreFeed(sort, offset)
+      const [pageCreators, pageLikes] = await Promise.all([
+        listCreators(page.map(image => image.userId)),
+        listLikedImageIds(userId, page.map(image => image.id))
+      ])
+      if (request !== requestRef.current) return
+
+      setImages(prev => offset > 0 ? [...prev, ...page] : page)
+      setCreators(prev => ({ ...prev, ...pageCreators }))
+      setLikedIds(prev => offset > 0 ? new Set([...prev, ...pageLikes]) : pageLikes)
+      setHasMore(page.length === EXPLORE_PAGE_SIZE)
+    } catch (error) {
+      console.error('Failed to load explore feed:', error)
+      toast.error('Failed to load explore feed')
+    } finally {
+      if (request === requestRef.current) setLoading(false)
+    }
+  }, [userId, sort])
+
+  useEffect(() => {
+    loadFeed(0)
+  }, [loadFeed])
+
+  const handleLightboxEnd = useCallback(() => {
+    if (hasMore && !loading) loadFeed(images.length)
+  }, [hasMore, loading, loadFeed, images.length])
+
+  const toggleLike = async (image: GeneratedImage) => {
+    if (!userId) return
+    const liked = !likedIds.has(image.id)
+    const previousCount = Number(image.likeCount) || 0
+    const applyLike = (isLiked: boolean, likeCount: number) => {
+      setLikedIds(prev => {
+        const next = new Set(prev)
+        if (isLiked) {
+          next.add(image.id)
+        } else {
+          next.delete(image.id)
+        }
+        return next
+      })
+      setImages(prev => prev.map(i => i.id === image.id ? { ...i, likeCount } : i))
+    }
+
+    applyLike(liked, Math.max(0, previousCount + (liked ? 1 : -1)))
+    try {
+      applyLike(liked, await setImageLiked(image, userId, liked))
+    } catch (error) {
+      console.error('Failed to update like:', error)
+      toast.error('Failed to update like')
+      applyLike(!liked, previousCount)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Explore</h1>
+          <p className="text-muted-foreground">
+            Images the community has chosen to publish
+          </p>
+        </div>
+        <Select value={sort} onValueChange={(value) => setSort(value as ExploreSort)}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="newest">Newest</SelectItem>
+            <SelectItem value="popular">Most liked</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {images.length === 0 && !loading ? (
+        <div className="text-center py-12">
+          <Compass className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+          <h3 className="text-lg font-semibold mb-2">Nothing published yet</h3>
+          <p className="text-muted-foreground">Publish an image from your Gallery to share it here</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+          {images.map((image, index) => {
+            const liked = likedIds.has(image.id)
+            const own = image.userId === userId
+
+            return (
+              <Card key={image.id} className="overflow-hidden">
+                <div className="aspect-square relative group">
+                  <img
+                    src={image.url}
+                    alt={image.prompt}
+                    className="w-full h-full object-cover cursor-zoom-in"
+                    onClick={() => setLightboxIndex(index)}
+                  />
+                  {!own && (
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      className="absolute top-3 right-3 opacity-0 group-hover:opacity-100 transition-opacity"
+                      onClick={() => setReportingImage(image)}
+                      title="Report"
+                    >
+                      <Flag className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+                <CardContent className="p-4 space-y-2">
+                  <p className="text-sm text-muted-foreground line-clamp-2">{image.prompt}</p>
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium truncate">
+                      {own ? 'You' : creators[image.userId]?.displayName ?? 'Anonymous'}
+                    </span>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-8 px-2"
+                      onClick={() => toggleLike(image)}
+                      title={liked ? 'Unlike' : 'Like'}
+                    >
+                      <Heart className={cn('h-4 w-4 mr-1', liked && 'fill-red-500 text-red-500')} />
+                      {Number(image.likeCount) || 0}
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )
+          })}
+        </div>
+      )}
+
+      {loading && (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      )}
+      {hasMore && !loading && (
+        <div className="flex justify-center">
+          <Button variant="outline" onClick={() => loadFeed(images.length)}>
+            Load more
+          </Button>
+        </div>
+      )}
+
+      <ImageLightbox
+        images={images}
+        index={lightboxIndex}
+        onIndexChange={setLightboxIndex}
+        onClose={() => setLightboxIndex(null)}
+        onReachEnd={handleLightboxEnd}
+      />
+
+      <ReportImageDialog image={reportingImage} onClose={() => setReportingImage(null)} />
+    </div>
+  )
+}
@@ -1,97 +1,435 @@
-import { useState, useEffect } from 'react'
-import { Card, CardContent } from '../components/ui/card'
+import { useState, useEffect, useRef, useCallback, useMemo, type MouseEvent } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { Card } from '../components/ui/card'
 import { Input } from '../components/ui/input'
 import { Button } from '../components/ui/button'
-import { Badge } from '../components/ui/badge'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select'
-import { Download, Share2, Search, Filter, Image as ImageIcon } from 'lucide-react'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '../components/ui/dropdown-menu'
+import { Popover, PopoverContent, PopoverTrigger } from '../components/ui/popover'
+import { ImageDetailsSheet } from '../components/gallery/ImageDetailsSheet'
+import { GalleryImageCard } from '../components/gallery/GalleryImageCard'
+import { CollectionsDialog } from '../components/gallery/CollectionsDialog'
+import { SortableImageGrid } from '../components/gallery/SortableImageGrid'
+import { ImageLightbox } from '../components/gallery/ImageLightbox'
+import { ShareLinksDialog } from '../components/gallery/ShareLinksDialog'
+import {
+  Search,
+  Filter,
+  Loader2,
+  FolderOpen,
+  FolderPlus,
+  Link2,
+  FolderMinus,
+  CheckSquare,
+  GripVertical,
+  Frame,
+  X,
+  Heart,
+  Star,
+  Tag,
+  ArrowUpDown,
+  Download,
+  Trash2,
+  Undo2,
+  Image as ImageIcon
+} from 'lucide-react'
 import { blink } from '../lib/blink'
+import {
+  listUserImages,
+  countUserImages,
+  trashImages,
+  restoreImages,
+  tagImages,
+  normalizeTag,
+  MAX_TAG_LENGTH,
+  type GeneratedImage,
+  type ImageQuery,
+  type ImageSort
+} from '../lib/images'
+import { downloadImage, downloadImagesAsZip } from '../lib/download'
+import { listCollectionItems, listCollectionImages, reorderCollection, type CollectionItem } from '../lib/collections'
+import { paramsFromImage, toGeneratorSearch } from '../lib/jobs'
+import { isHidden } from '../lib/moderation'
+import { isPublished, setImagePublished } from '../lib/explore'
+import { ShareLinkError } from '../lib/share-links'
+import { useCollections } from '../hooks/use-collections'
+import { useGenerationQueue } from '../hooks/use-generation-queue'
+import { cn } from '../lib/utils'
 import toast from 'react-hot-toast'
 
-interface GeneratedImage {
-  id: string
-  userId: string
-  url: string
-  prompt: string
-  size: string
-  quality: string
-  createdAt: string
+const UNDO_WINDOW_MS = 6000
+
+interface RemovedImage {
+  image: GeneratedImage
+  index: number
 }
 
+const GRID_CLASS = 'grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6'
+
 export function Gallery() {
+  const navigate = useNavigate()
+  const [userId, setUserId] = useState<string | null>(null)
   const [images, setImages] = useState<GeneratedImage[]>([])
+  const [totalCount, setTotalCount] = useState(0)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
   const [loading, setLoading] = useState(true)
+  const [fetching, setFetching] = useState(false)
   const [searchQuery, setSearchQuery] = useState('')
+  const [debouncedSearch, setDebouncedSearch] = useState('')
   const [sizeFilter, setSizeFilter] = useState('all')
   const [qualityFilter, setQualityFilter] = useState('all')
+  const [favoritesOnly, setFavoritesOnly] = useState(false)
+  const [ratingFilter, setRatingFilter] = useState('all')
+  const [tagFilter, setTagFilter] = useState('')
+  const [debouncedTag, setDebouncedTag] = useState('')
+  const [sort, setSort] = useState<ImageSort>('newest')
+  const [collectionFilter, setCollectionFilter] = useState('all')
+  const [collectionItems, setCollectionItems] = useState<CollectionItem[]>([])
+  const [collectionsOpen, setCollectionsOpen] = useState(false)
+  const [selectMode, setSelectMode] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [reorderMode, setReorderMode] = useState(false)
+  const [detailsImage, setDetailsImage] = useState<GeneratedImage | null>(null)
+  const [sharingImage, setSharingImage] = useState<GeneratedImage | null>(null)
+  const [shareLinksOpen, setShareLinksOpen] = useState(false)
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null)
+  const requestRef = useRef(0)
+  const sentinelRef = useRef<HTMLDivElement>(null)
+  const selectionAnchorRef = useRef<string | null>(null)
+  const [bulkTag, setBulkTag] = useState('')
+  const [bulkBusy, setBulkBusy] = useState(false)
+  const { replaceImage, forgetImages } = useGenerationQueue()
+  const collectionsApi = useCollections(userId)
+  const { collections } = collectionsApi
+
+  const activeCollectionId = collectionFilter === 'all' ? null : collectionFilter
+  const activeCollection = collections.find(c => c.id === activeCollectionId)
+  const hasFilters = !!debouncedSearch.trim() || sizeFilter !== 'all' || qualityFilter !== 'all' ||
+    favoritesOnly || ratingFilter !== 'all' || !!debouncedTag.trim()
 
   useEffect(() => {
-    loadImages()
+    blink.auth.me()
+      .then(user => setUserId(user.id))
+      .catch(error => {
+        console.error('Failed to load user:', error)
+        toast.error('Failed to load gallery')
+        setLoading(false)
+      })
   }, [])
 
-  const loadImages = async () => {
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setDebouncedSearch(searchQuery)
+      setDebouncedTag(tagFilter)
+    }, 300)
+    return () => clearTimeout(timeout)
+  }, [searchQuery, tagFilter])
+
+  const query = useMemo<ImageQuery>(() => ({
+    search: debouncedSearch,
+    size: sizeFilter === 'all' ? undefined : sizeFilter,
+    quality: qualityFilter === 'all' ? undefined : qualityFilter,
+    favoritesOnly,
+    minRating: ratingFilter === 'all' ? undefined : Number(ratingFilter),
+    tag: debouncedTag.trim() || undefined,
+    sort
+  }), [debouncedSearch, sizeFilter, qualityFilter, favoritesOnly, ratingFilter, debouncedTag, sort])
+
+  // Fetches one page for the current filters, or the whole album when a
+  // collection is selected. Responses from a superseded query are dropped so
+  // fast typing can't interleave stale pages.
+  const loadImages = useCallback(async (cursor: string | null) => {
+    if (!userId) return
+    const request = ++requestRef.current
+    setFetching(true)
+
     try {
-      const user = await blink.auth.me()
-      const userImages = await blink.db.generatedImages.list({
-        where: { userId: user.id },
-        orderBy: { createdAt: 'desc' },
-        limit: 50
-      })
-      setImages(userImages)
+      if (activeCollectionId) {
+        const items = await listCollectionItems(activeCollectionId)
+        const albumImages = await listCollectionImages(userId, items, query)
+        if (request !== requestRef.current) return
+
+        setCollectionItems(items)
+        setImages(albumImages)
+        setNextCursor(null)
+        setTotalCount(albumImages.length)
+        return
+      }
+
+      const [page, count] = await Promise.all([
+        listUserImages(userId, query, cursor),
+        cursor ? Promise.resolve(null) : countUserImages(userId, query)
+      ])
+      if (request !== requestRef.current) return
+
+      setImages(prev => cursor ? [...prev, ...page.images] : page.images)
+      setNextCursor(page.nextCursor)
+      if (count !== null) setTotalCount(count)
     } catch (error) {
       console.error('Failed to load images:', error)
       toast.error('Failed to load gallery')
     } finally {
-      setLoading(false)
+      if (request === requestRef.current) {
+        setFetching(false)
+        setLoading(false)
+      }
     }
-  }
+  }, [userId, query, activeCollectionId])
 
-  const filteredImages = images.filter(image => {
-    const matchesSearch = image.prompt.toLowerCase().includes(searchQuery.toLowerCase())
-    const matchesSize = sizeFilter === 'all' || image.size === sizeFilter
-    const matchesQuality = qualityFilter === 'all' || image.quality === qualityFilter
-    return matchesSearch && matchesSize && matchesQuality
-  })
+  useEffect(() => {
+    loadImages(null)
+  }, [loadImages])
 
-  const handleDownload = async (imageUrl: string, prompt: string) => {
+  useEffect(() => {
+    setSelectedIds(new Set())
+    setReorderMode(false)
+  }, [activeCollectionId])
+
+  // A deleted collection can no longer be the active filter
+  useEffect(() => {
+    if (activeCollectionId && !collections.some(c => c.id === activeCollectionId)) {
+      setCollectionFilter('all')
+    }
+  }, [collections, activeCollectionId])
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!sentinel || !nextCursor) return
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !fetching) {
+        loadImages(nextCursor)
+      }
+    }, { rootMargin: '400px' })
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [nextCursor, fetching, loadImages])
+
+  const handleDownload = async (image: GeneratedImage) => {
     try {
-      const response = await fetch(imageUrl)
-      const blob = await response.blob()
-      const url = window.URL.createObjectURL(blob)
-      const a = document.createElement('a')
-      a.href = url
-      a.download = `ai-generated-${prompt.slice(0, 30).replace(/[^a-zA-Z0-9]/g, '-')}.png`
-      document.body.appendChild(a)
-      a.click()
-      window.URL.revokeObjectURL(url)
-      document.body.removeChild(a)
+      await downloadImage(image)
       toast.success('Image downloaded!')
     } catch (error) {
       toast.error('Failed to download image')
     }
   }
 
-  const handleShare = async (imageUrl: string, prompt: string) => {
-    if (navigator.share) {
-      try {
-        await navigator.share({
-          title: 'AI Generated Image',
-          text: `Check out this AI-generated image: "${prompt}"`,
-          url: imageUrl
-        })
-      } catch (error) {
-        // User cancelled sharing
+  const handleRemix = (image: GeneratedImage) => {
+    navigate(`/?${toGeneratorSearch({ ...paramsFromImage(image), parentId: image.id })}`)
+  }
+
+  // Click toggles one image; shift-click selects everything between it and
+  // the last image clicked, in grid order
+  const handleSelect = (image: GeneratedImage, event: MouseEvent) => {
+    const anchorIndex = images.findIndex(i => i.id === selectionAnchorRef.current)
+    const index = images.findIndex(i => i.id === image.id)
+
+    setSelectMode(true)
+    setSelectedIds(prev => {
+      const next = new Set(prev)
+      if (event.shiftKey && anchorIndex !== -1) {
+        const [from, to] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex]
+        images.slice(from, to + 1).forEach(i => next.add(i.id))
+      } else if (next.has(image.id)) {
+        next.delete(image.id)
+      } else {
+        next.add(image.id)
       }
-    } else {
-      try {
-        await navigator.clipboard.writeText(imageUrl)
-        toast.success('Image URL copied to clipboard!')
-      } catch (error) {
-        toast.error('Failed to copy URL')
+      return next
+    })
+    selectionAnchorRef.current = image.id
+  }
+
+  const exitSelectMode = () => {
+    setSelectMode(false)
+    setSelectedIds(new Set())
+    selectionAnchorRef.current = null
+  }
+
+  const selectedImages = images.filter(image => selectedIds.has(image.id))
+  const noneSelected = selectedImages.length === 0
+
+  const handleDownloadSelected = async () => {
+    const toastId = toast.loading(`Preparing 0 of ${selectedImages.length}...`)
+    setBulkBusy(true)
+    try {
+      const failed = await downloadImagesAsZip(selectedImages, (done, total) => {
+        toast.loading(`Preparing ${done} of ${total}...`, { id: toastId })
+      })
+      if (failed > 0) {
+        toast.error(`Downloaded ZIP, but ${failed} image${failed === 1 ? '' : 's'} could not be fetched`, { id: toastId })
+      } else {
+        toast.success(`Downloaded ${selectedImages.length} images`, { id: toastId })
       }
+    } catch (error) {
+      console.error('Failed to build ZIP:', error)
+      toast.error('Failed to download images', { id: toastId })
+    } finally {
+      setBulkBusy(false)
+    }
+  }
+
+  const handleTagSelected = async () => {
+    const tag = normalizeTag(bulkTag)
+    if (!tag) return
+    setBulkBusy(true)
+    try {
+      const tagged = await tagImages(selectedImages, tag)
+      tagged.forEach(handleAnnotate)
+      setBulkTag('')
+      toast.success(`Tagged ${tagged.length} image${tagged.length === 1 ? '' : 's'} "${tag}"`)
+    } catch (error) {
+      console.error('Failed to tag images:', error)
+      toast.error('Failed to tag images')
+    } finally {
+      setBulkBusy(false)
+    }
+  }
+
+  // Moves the selection to the trash straight away; the toast's Undo puts the
+  // images back where they were in the grid
+  const handleDeleteSelected = async () => {
+    const removed = images
+      .map((image, index) => ({ image, index }))
+      .filter(({ image }) => selectedIds.has(image.id))
+    const imageIds = removed.map(r => r.image.id)
+
+    setBulkBusy(true)
+    try {
+      await trashImages(imageIds)
+    } catch (error) {
+      console.error('Failed to delete images:', error)
+      toast.error('Failed to delete images')
+      return
+    } finally {
+      setBulkBusy(false)
     }
+
+    setImages(prev => prev.filter(image => !imageIds.includes(image.id)))
+    setTotalCount(prev => prev - removed.length)
+    forgetImages(imageIds)
+    exitSelectMode()
+
+    toast((t) => (
+      <span className="flex items-center gap-3">
+        Moved {removed.length} image{removed.length === 1 ? '' : 's'} to trash
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => {
+            toast.dismiss(t.id)
+            handleUndoDelete(removed)
+          }}
+        >
+          <Undo2 className="h-4 w-4 mr-2" />
+          Undo
+        </Button>
+      </span>
+    ), { duration: UNDO_WINDOW_MS })
   }
 
+  const handleUndoDelete = async (removed: RemovedImage[]) => {
+    try {
+      await restoreImages(removed.map(r => r.image.id))
+    } catch (error) {
+      console.error('Failed to restore images:', error)
+      toast.error('Failed to restore images')
+      return
+    }
+
+    setImages(prev => {
+      const restored = [...prev]
+      removed.forEach(({ image, index }) => restored.splice(index, 0, { ...image, deletedAt: null }))
+      return restored
+    })
+    setTotalCount(prev => prev + removed.length)
+  }
+
+  const handleAddSelected = async (collectionId: string) => {
+    await collectionsApi.addImages(collectionId, [...selectedIds])
+    exitSelectMode()
+  }
+
+  const handleRemoveSelected = async () => {
+    if (!activeCollectionId) return
+    const removedIds = [...selectedIds]
+    await collectionsApi.removeImages(activeCollectionId, removedIds)
+    setImages(prev => prev.filter(image => !removedIds.includes(image.id)))
+    setTotalCount(prev => prev - removedIds.length)
+    exitSelectMode()
+  }
+
+  const handleReorder = async (orderedIds: string[]) => {
+    const previous = images
+    setImages(orderedIds.map(id => images.find(image => image.id === id)!))
+    try {
+      setCollectionItems(await reorderCollection(collectionItems, orderedIds))
+    } catch (error) {
+      console.error('Failed to reorder collection:', error)
+      toast.error('Failed to save the new order')
+      setImages(previous)
+    }
+  }
+
+  // Paging on from the lightbox pulls in the next page, like scrolling the grid
+  const handleLightboxEnd = useCallback(() => {
+    if (nextCursor && !fetching) loadImages(nextCursor)
+  }, [nextCursor, fetching, loadImages])
+
+  const handleAnnotate = (updated: GeneratedImage) => {
+    setImages(prev => prev.map(image => image.id === updated.id ? updated : image))
+    replaceImage(updated)
+  }
+
+  const handleTogglePublish = async (image: GeneratedImage) => {
+    const publish = !isPublished(image)
+    try {
+      handleAnnotate(await setImagePublished(image, publish))
+      toast.success(publish ? 'Published to Explore' : 'Removed from Explore')
+    } catch (error) {
+      if (error instanceof ShareLinkError) {
+        toast.error(error.message)
+        return
+      }
+      console.error('Failed to update image:', error)
+      toast.error('Failed to update image')
+    }
+  }
+
+  const renderCard = (image: GeneratedImage) => (
+    <GalleryImageCard
+      key={image.id}
+      image={image}
+      selectMode={selectMode}
+      selected={selectedIds.has(image.id)}
+      onSelect={reorderMode ? undefined : handleSelect}
+      onDownload={handleDownload}
+      onShare={(img) => !isHidden(img) && setSharingImage(img)}
+      onTogglePublish={image.userId === userId ? handleTogglePublish : undefined}
+      onRemix={handleRemix}
+      onDetails={setDetailsImage}
+      onOpen={reorderMode ? undefined : (img) => setLightboxIndex(images.indexOf(img))}
+      onAnnotate={handleAnnotate}
+      extraActions={activeCollectionId && !reorderMode && (
+        <Button
+          size="sm"
+          variant="secondary"
+          onClick={() => collectionsApi.setCover(activeCollectionId, image.id)}
+          title="Set as collection cover"
+        >
+          <Frame className="h-4 w-4" />
+        </Button>
+      )}
+    />
+  )
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -130,7 +468,21 @@ export function Gallery() {
               />
             </div>
           </div>
-          <div className="flex gap-2">
+          <div className="flex flex-wrap gap-2">
+            <Select value={collectionFilter} onValueChange={setCollectionFilter}>
+              <SelectTrigger className="w-[180px]">
+                <FolderOpen className="h-4 w-4 mr-2" />
+                <SelectValue placeholder="Collection" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Images</SelectItem>
+                {collections.map((collection) => (
+                  <SelectItem key={collection.id} value={collection.id}>
+                    {collection.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
             <Select value={sizeFilter} onValueChange={setSizeFilter}>
               <SelectTrigger className="w-[140px]">
                 <Filter className="h-4 w-4 mr-2" />
@@ -157,22 +509,164 @@ export function Gallery() {
             </Select>
           </div>
         </div>
+        <div className="flex flex-col md:flex-row gap-4 mt-4">
+          <div className="flex-1">
+            <div className="relative">
+              <Tag className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Filter by tag..."
+                value={tagFilter}
+                onChange={(e) => setTagFilter(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant={favoritesOnly ? 'default' : 'outline'}
+              onClick={() => setFavoritesOnly(!favoritesOnly)}
+            >
+              <Heart className={cn('h-4 w-4 mr-2', favoritesOnly && 'fill-current')} />
+              Favorites
+            </Button>
+            <Select value={ratingFilter} onValueChange={setRatingFilter}>
+              <SelectTrigger className="w-[140px]">
+                <Star className="h-4 w-4 mr-2" />
+                <SelectValue placeholder="Rating" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any Rating</SelectItem>
+                {[5, 4, 3, 2, 1].map((value) => (
+                  <SelectItem key={value} value={String(value)}>
+                    {value === 5 ? '5 stars' : `${value}+ stars`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={sort} onValueChange={(value) => setSort(value as ImageSort)} disabled={!!activeCollectionId}>
+              <SelectTrigger className="w-[160px]">
+                <ArrowUpDown className="h-4 w-4 mr-2" />
+                <SelectValue placeholder="Sort" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="newest">Newest</SelectItem>
+                <SelectItem value="oldest">Oldest</SelectItem>
+                <SelectItem value="rating">Highest Rated</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={() => setCollectionsOpen(true)}>
+              <FolderPlus className="h-4 w-4 mr-2" />
+              Collections
+            </Button>
+            <Button variant="outline" onClick={() => setShareLinksOpen(true)}>
+              <Link2 className="h-4 w-4 mr-2" />
+              Shared Links
+            </Button>
+            <Button variant="outline" onClick={() => navigate('/gallery/trash')}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Trash
+            </Button>
+          </div>
+        </div>
       </Card>
 
+      {/* Selection toolbar */}
+      {selectMode && (
+        <Card className="p-4 flex flex-wrap items-center gap-2">
+          <div className="mr-auto">
+            <p className="text-sm font-medium">{selectedIds.size} selected</p>
+            <p className="text-xs text-muted-foreground">Shift-click to select a range</p>
+          </div>
+          <Button variant="ghost" size="sm" onClick={() => setSelectedIds(new Set(images.map(image => image.id)))}>
+            Select all
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setSelectedIds(new Set())} disabled={noneSelected}>
+            Clear
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button size="sm" disabled={noneSelected}>
+                <FolderPlus className="h-4 w-4 mr-2" />
+                Add to collection
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Add to collection</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {collections.length === 0 ? (
+                <DropdownMenuItem onClick={() => setCollectionsOpen(true)}>
+                  Create a collection first...
+                </DropdownMenuItem>
+              ) : (
+                collections.map((collection) => (
+                  <DropdownMenuItem key={collection.id} onClick={() => handleAddSelected(collection.id)}>
+                    {collection.name}
+                  </DropdownMenuItem>
+                ))
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button size="sm" variant="outline" onClick={handleDownloadSelected} disabled={noneSelected || bulkBusy}>
+            <Download className="h-4 w-4 mr-2" />
+            Download ZIP
+          </Button>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button size="sm" variant="outline" disabled={noneSelected || bulkBusy}>
+                <Tag className="h-4 w-4 mr-2" />
+                Tag
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-64">
+              <div className="flex gap-2">
+                <Input
+                  value={bulkTag}
+                  onChange={(e) => setBulkTag(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleTagSelected()}
+                  maxLength={MAX_TAG_LENGTH}
+                  placeholder="Tag to add"
+                  className="h-8"
+                />
+                <Button size="sm" onClick={handleTagSelected} disabled={!normalizeTag(bulkTag) || bulkBusy}>
+                  Add
+                </Button>
+              </div>
+            </PopoverContent>
+          </Popover>
+          <Button size="sm" variant="outline" onClick={handleDeleteSelected} disabled={noneSelected || bulkBusy}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete
+          </Button>
+          {activeCollectionId && (
+            <Button size="sm" variant="outline" onClick={handleRemoveSelected} disabled={noneSelected}>
+              <FolderMinus className="h-4 w-4 mr-2" />
+              Remove from collection
+            </Button>
+          )}
+          <Button size="sm" variant="ghost" onClick={exitSelectMode}>
+            <X className="h-4 w-4" />
+          </Button>
+        </Card>
+      )}
+
       {/* Results */}
-      {filteredImages.length === 0 ? (
+      {images.length === 0 ? (
         <div className="text-center py-12">
           <ImageIcon className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
           <h3 className="text-lg font-semibold mb-2">
-            {images.length === 0 ? 'No images yet' : 'No images match your filters'}
+            {hasFilters
+              ? 'No images match your filters'
+              : activeCollection ? `"${activeCollection.name}" is empty` : 'No images yet'}
           </h3>
           <p className="text-muted-foreground mb-4">
-            {images.length === 0 
-              ? 'Start creating amazing AI-generated images!' 
-              : 'Try adjusting your search or filters'
+            {hasFilters
+              ? 'Try adjusting your search or filters'
+              : activeCollection
+                ? 'Use Select on the full gallery to add images to this collection'
+                : 'Start creating amazing AI-generated images!'
             }
           </p>
-          {images.length === 0 && (
+          {!hasFilters && !activeCollection && (
             <Button onClick={() => window.location.href = '/'}>
               Create Your First Image
             </Button>
@@ -180,61 +674,88 @@ export function Gallery() {
         </div>
       ) : (
         <div className="space-y-4">
-          <div className="flex items-center justify-between">
-            <p className="text-sm text-muted-foreground">
-              Showing {filteredImages.length} of {images.length} images
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm text-muted-foreground mr-auto">
+              {activeCollection
+                ? `${activeCollection.name} · ${totalCount} images`
+                : `Showing ${images.length} of ${totalCount} images`}
             </p>
+            {fetching && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+            {activeCollectionId && !hasFilters && !selectMode && (
+              <Button
+                size="sm"
+                variant={reorderMode ? 'default' : 'outline'}
+                onClick={() => setReorderMode(!reorderMode)}
+              >
+                <GripVertical className="h-4 w-4 mr-2" />
+                {reorderMode ? 'Done' : 'Reorder'}
+              </Button>
+            )}
+            {!selectMode && !reorderMode && (
+              <Button size="sm" variant="outline" onClick={() => setSelectMode(true)}>
+                <CheckSquare className="h-4 w-4 mr-2" />
+                Select
+              </Button>
+            )}
           </div>
-          
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-            {filteredImages.map((image) => (
-              <Card key={image.id} className="overflow-hidden">
-                <div className="aspect-square relative group">
-                  <img
-                    src={image.url}
-                    alt={image.prompt}
-                    className="w-full h-full object-cover"
-                  />
-                  <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center space-x-2">
-                    <Button
-                      size="sm"
-                      variant="secondary"
-                      onClick={() => handleDownload(image.url, image.prompt)}
-                    >
-                      <Download className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      size="sm"
-                      variant="secondary"
-                      onClick={() => handleShare(image.url, image.prompt)}
-                    >
-                      <Share2 className="h-4 w-4" />
-                    </Button>
-                  </div>
-                </div>
-                <CardContent className="p-4">
-                  <p className="text-sm text-muted-foreground line-clamp-2 mb-2">
-                    {image.prompt}
-                  </p>
-                  <div className="flex items-center justify-between">
-                    <div className="flex space-x-1">
-                      <Badge variant="secondary" className="text-xs">
-                        {image.size}
-                      </Badge>
-                      <Badge variant="outline" className="text-xs">
-                        {image.quality}
-                      </Badge>
-                    </div>
-                    <span className="text-xs text-muted-foreground">
-                      {new Date(image.createdAt).toLocaleDateString()}
-                    </span>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
-          </div>
+
+          {reorderMode ? (
+            <SortableImageGrid
+              images={images}
+              onReorder={handleReorder}
+              renderCard={renderCard}
+              className={GRID_CLASS}
+            />
+          ) : (
+            <div className={GRID_CLASS}>
+              {images.map(renderCard)}
+            </div>
+          )}
+
+          {nextCursor && (
+            <div ref={sentinelRef} className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          )}
         </div>
       )}
+
+      <CollectionsDialog
+        open={collectionsOpen}
+        onOpenChange={setCollectionsOpen}
+        collections={collections}
+        onCreate={collectionsApi.create}
+        onRename={collectionsApi.rename}
+        onDelete={collectionsApi.remove}
+      />
+
+      <ImageLightbox
+        images={images}
+        index={lightboxIndex}
+        onIndexChange={setLightboxIndex}
+        onClose={() => setLightboxIndex(null)}
+        onDownload={handleDownload}
+        onAnnotate={handleAnnotate}
+        onReachEnd={handleLightboxEnd}
+      />
+
+      <ImageDetailsSheet
+        image={detailsImage}
+        onOpenChange={(open) => !open && setDetailsImage(null)}
+        onSelectImage={setDetailsImage}
+      />
+
+      <ShareLinksDialog
+        open={!!sharingImage || shareLinksOpen}
+        onOpenChange={(open) => {
+          if (!open) {
+            setSharingImage(null)
+            setShareLinksOpen(false)
+          }
+        }}
+        userId={userId}
+        image={sharingImage}
+      />
     </div>
   )
 }
\ No newline at end of file
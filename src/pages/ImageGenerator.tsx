@@ -1,11 +1,26 @@
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
+import { useSearchParams } from 'react-router-dom'
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
 import { Button } from '../components/ui/button'
-import { Input } from '../components/ui/input'
 import { Textarea } from '../components/ui/textarea'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select'
-import { Progress } from '../components/ui/progress'
 import { Badge } from '../components/ui/badge'
+import { Progress } from '../components/ui/progress'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '../components/ui/alert-dialog'
+import { GenerationQueue } from '../components/generation/GenerationQueue'
+import { RateLimitCountdown } from '../components/generation/RateLimitCountdown'
+import { ImageAnnotationControls } from '../components/gallery/ImageAnnotationControls'
+import { ImageLightbox } from '../components/gallery/ImageLightbox'
+import { ShareLinksDialog } from '../components/gallery/ShareLinksDialog'
 import { 
   Wand2, 
   Download, 
@@ -14,28 +29,93 @@ import {
   Image as ImageIcon,
   Loader2,
   Settings,
-  Palette
+  Palette,
+  Layers,
+  Trophy,
+  Trash2,
+  GitBranch,
+  X
 } from 'lucide-react'
-import { blink } from '../lib/blink'
+import { useGenerationQueue } from '../hooks/use-generation-queue'
+import { MAX_BATCH_SIZE, readGeneratorSearch, type GenerationParams } from '../lib/jobs'
+import type { PolicyVerdict } from '../lib/policy'
+import { getImage, type GeneratedImage } from '../lib/images'
+import { describeQuotaShortfall } from '../lib/quota'
+import { downloadImage } from '../lib/download'
+import { cn } from '../lib/utils'
 import toast from 'react-hot-toast'
 
-interface GeneratedImage {
+interface ImageBatch {
   id: string
-  url: string
-  prompt: string
-  size: string
-  quality: string
-  createdAt: string
+  images: GeneratedImage[]
+}
+
+// Images arrive newest first; variants from one request share a batch id and
+// are rendered together as a comparison grid.
+const groupIntoBatches = (images: GeneratedImage[]) => {
+  const batches: ImageBatch[] = []
+  images.forEach(image => {
+    const batchId = image.batchId || image.id
+    const batch = batches.find(b => b.id === batchId)
+    if (batch) {
+      batch.images.push(image)
+    } else {
+      batches.push({ id: batchId, images: [image] })
+    }
+  })
+  return batches
 }
 
 export function ImageGenerator() {
-  const [prompt, setPrompt] = useState('')
-  const [size, setSize] = useState('1024x1024')
-  const [quality, setQuality] = useState('high')
-  const [style, setStyle] = useState('natural')
-  const [generating, setGenerating] = useState(false)
-  const [progress, setProgress] = useState(0)
-  const [generatedImages, setGeneratedImages] = useState<GeneratedImage[]>([])
+  const [searchParams, setSearchParams] = useSearchParams()
+  const [initial] = useState(() => readGeneratorSearch(searchParams))
+  const [prompt, setPrompt] = useState(initial.prompt || '')
+  const [size, setSize] = useState(initial.size || '1024x1024')
+  const [quality, setQuality] = useState(initial.quality || 'high')
+  const [style, setStyle] = useState(initial.style || 'natural')
+  const [batchSize, setBatchSize] = useState(String(initial.n || 1))
+  const [parentId, setParentId] = useState(initial.parentId || null)
+  const [parentImage, setParentImage] = useState<GeneratedImage | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+  // A flagged prompt waiting for the user to confirm it
+  const [policyCheck, setPolicyCheck] = useState<{ params: GenerationParams; verdict: PolicyVerdict } | null>(null)
+  const {
+    jobs,
+    images: generatedImages,
+    enqueue,
+    pickFavorite,
+    discardUnpicked,
+    replaceImage,
+    quota,
+    reserved,
+    rateLimitedUntil
+  } = useGenerationQueue()
+  const quotaShortfall = quota && describeQuotaShortfall(quota, parseInt(batchSize), reserved)
+
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null)
+  const [sharingImage, setSharingImage] = useState<GeneratedImage | null>(null)
+
+  const batches = groupIntoBatches(generatedImages)
+  // The lightbox pages through results in the order they are displayed
+  const viewerImages = batches.flatMap(batch => batch.images)
+
+  useEffect(() => {
+    if (!parentId) {
+      setParentImage(null)
+      return
+    }
+    getImage(parentId)
+      .then(setParentImage)
+      .catch(error => console.error('Failed to load remix source:', error))
+  }, [parentId])
+
+  const clearRemix = () => {
+    setParentId(null)
+    setSearchParams(prev => {
+      prev.delete('parent')
+      return prev
+    }, { replace: true })
+  }
 
   const handleGenerate = async () => {
     if (!prompt.trim()) {
@@ -43,98 +123,40 @@ export function ImageGenerator() {
       return
     }
 
-    setGenerating(true)
-    setProgress(0)
-
+    const params = { prompt, size, quality, style, n: parseInt(batchSize), parentId }
+    setSubmitting(true)
     try {
-      // Simulate progress
-      const progressInterval = setInterval(() => {
-        setProgress(prev => Math.min(prev + 10, 90))
-      }, 200)
-
-      const user = await blink.auth.me()
-      
-      // Generate image using Blink AI
-      const { data } = await blink.ai.generateImage({
-        prompt,
-        size: size as '1024x1024' | '1792x1024' | '1024x1792',
-        quality: quality as 'auto' | 'low' | 'medium' | 'high',
-        style: style as 'vivid' | 'natural',
-        n: 1
-      })
-
-      clearInterval(progressInterval)
-      setProgress(100)
-
-      if (data && data[0]?.url) {
-        const imageData = {
-          id: `img_${Date.now()}`,
-          userId: user.id,
-          url: data[0].url,
-          prompt,
-          size,
-          quality,
-          createdAt: new Date().toISOString()
-        }
-
-        // Save to database
-        await blink.db.generatedImages.create(imageData)
+      const verdict = await enqueue(params)
+      if (verdict) setPolicyCheck({ params, verdict })
+    } finally {
+      setSubmitting(false)
+    }
+  }
 
-        // Add to local state
-        setGeneratedImages(prev => [imageData, ...prev])
-        
-        toast.success('Image generated successfully!')
-      } else {
-        throw new Error('No image data received')
-      }
-    } catch (error) {
-      console.error('Generation failed:', error)
-      toast.error('Failed to generate image. Please try again.')
+  const confirmFlaggedPrompt = async () => {
+    if (!policyCheck) return
+    const { params, verdict } = policyCheck
+    setPolicyCheck(null)
+    setSubmitting(true)
+    try {
+      // The rules may have changed while the dialog was open
+      const changed = await enqueue(params, verdict)
+      if (changed) setPolicyCheck({ params, verdict: changed })
     } finally {
-      setGenerating(false)
-      setProgress(0)
+      setSubmitting(false)
     }
   }
 
-  const handleDownload = async (imageUrl: string, prompt: string) => {
+  const handleDownload = async (image: GeneratedImage) => {
     try {
-      const response = await fetch(imageUrl)
-      const blob = await response.blob()
-      const url = window.URL.createObjectURL(blob)
-      const a = document.createElement('a')
-      a.href = url
-      a.download = `ai-generated-${prompt.slice(0, 30).replace(/[^a-zA-Z0-9]/g, '-')}.png`
-      document.body.appendChild(a)
-      a.click()
-      window.URL.revokeObjectURL(url)
-      document.body.removeChild(a)
+      await downloadImage(image)
       toast.success('Image downloaded!')
     } catch (error) {
+      console.error('Failed to download image:', error)
       toast.error('Failed to download image')
     }
   }
 
-  const handleShare = async (imageUrl: string, prompt: string) => {
-    if (navigator.share) {
-      try {
-        await navigator.share({
-          title: 'AI Generated Image',
-          text: `Check out this AI-generated image: "${prompt}"`,
-          url: imageUrl
-        })
-      } catch (error) {
-        // User cancelled sharing
-      }
-    } else {
-      try {
-        await navigator.clipboard.writeText(imageUrl)
-        toast.success('Image URL copied to clipboard!')
-      } catch (error) {
-        toast.error('Failed to copy URL')
-      }
-    }
-  }
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-purple-50">
       <div className="max-w-7xl mx-auto px-4 py-8">
@@ -164,6 +186,28 @@ export function ImageGenerator() {
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-6">
+                {/* Remix Source */}
+                {parentId && (
+                  <div className="flex items-center justify-between p-3 rounded-lg bg-indigo-50 border border-indigo-100">
+                    <div className="flex items-center space-x-3 min-w-0">
+                      {parentImage ? (
+                        <img src={parentImage.url} alt={parentImage.prompt} className="h-12 w-12 rounded-md object-cover shrink-0" />
+                      ) : (
+                        <GitBranch className="h-5 w-5 text-indigo-600 shrink-0" />
+                      )}
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-indigo-700">Remixing an image</p>
+                        <p className="text-xs text-gray-500 line-clamp-1">
+                          {parentImage?.prompt || 'New images will be linked to the original'}
+                        </p>
+                      </div>
+                    </div>
+                    <Button size="sm" variant="ghost" onClick={clearRemix} title="Stop remixing">
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+
                 {/* Prompt Input */}
                 <div className="space-y-2">
                   <label className="text-sm font-medium text-gray-700">
@@ -174,18 +218,17 @@ export function ImageGenerator() {
                     value={prompt}
                     onChange={(e) => setPrompt(e.target.value)}
                     className="min-h-[100px] resize-none border-gray-200 focus:border-indigo-500 focus:ring-indigo-500"
-                    disabled={generating}
                   />
                 </div>
 
                 {/* Settings */}
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div className="space-y-2">
                     <label className="text-sm font-medium text-gray-700 flex items-center space-x-1">
                       <Settings className="h-4 w-4" />
                       <span>Size</span>
                     </label>
-                    <Select value={size} onValueChange={setSize} disabled={generating}>
+                    <Select value={size} onValueChange={setSize}>
                       <SelectTrigger>
                         <SelectValue />
                       </SelectTrigger>
@@ -199,7 +242,7 @@ export function ImageGenerator() {
 
                   <div className="space-y-2">
                     <label className="text-sm font-medium text-gray-700">Quality</label>
-                    <Select value={quality} onValueChange={setQuality} disabled={generating}>
+                    <Select value={quality} onValueChange={setQuality}>
                       <SelectTrigger>
                         <SelectValue />
                       </SelectTrigger>
@@ -217,7 +260,7 @@ export function ImageGenerator() {
                       <Palette className="h-4 w-4" />
                       <span>Style</span>
                     </label>
-                    <Select value={style} onValueChange={setStyle} disabled={generating}>
+                    <Select value={style} onValueChange={setStyle}>
                       <SelectTrigger>
                         <SelectValue />
                       </SelectTrigger>
@@ -227,39 +270,66 @@ export function ImageGenerator() {
                       </SelectContent>
                     </Select>
                   </div>
+
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-gray-700 flex items-center space-x-1">
+                      <Layers className="h-4 w-4" />
+                      <span>Variants</span>
+                    </label>
+                    <Select value={batchSize} onValueChange={setBatchSize}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Array.from({ length: MAX_BATCH_SIZE }, (_, i) => String(i + 1)).map(count => (
+                          <SelectItem key={count} value={count}>
+                            {count === '1' ? '1 image' : `${count} images`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
 
                 {/* Generate Button */}
                 <Button
                   onClick={handleGenerate}
-                  disabled={generating || !prompt.trim()}
+                  disabled={submitting || !prompt.trim() || !!quotaShortfall || !!rateLimitedUntil}
                   className="w-full h-12 text-lg bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700 transition-all duration-200"
                 >
-                  {generating ? (
+                  {submitting ? (
                     <>
                       <Loader2 className="h-5 w-5 mr-2 animate-spin" />
-                      Generating...
+                      Queueing...
                     </>
                   ) : (
                     <>
                       <Sparkles className="h-5 w-5 mr-2" />
-                      Generate Image
+                      {batchSize === '1' ? 'Generate Image' : `Generate ${batchSize} Variants`}
                     </>
                   )}
                 </Button>
 
-                {/* Progress */}
-                {generating && (
+                {rateLimitedUntil && <RateLimitCountdown until={rateLimitedUntil} />}
+
+                {quota && (
                   <div className="space-y-2">
-                    <div className="flex justify-between text-sm text-gray-600">
-                      <span>Creating your masterpiece...</span>
-                      <span>{progress}%</span>
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-gray-600">Image quota</span>
+                      <span className="font-medium text-gray-700">
+                        {Math.max(0, quota.remaining - reserved)} of {quota.limit} left
+                      </span>
                     </div>
-                    <Progress value={progress} className="h-2" />
+                    <Progress value={quota.limit > 0 ? Math.min(100, ((quota.used + reserved) / quota.limit) * 100) : 100} />
+                    {quotaShortfall && (
+                      <p className="text-sm text-red-600">{quotaShortfall}</p>
+                    )}
                   </div>
                 )}
               </CardContent>
             </Card>
+
+            <GenerationQueue />
           </div>
 
           {/* Results Panel */}
@@ -286,53 +356,105 @@ export function ImageGenerator() {
                   </div>
                 ) : (
                   <div className="space-y-6">
-                    {generatedImages.map((image) => (
-                      <div key={image.id} className="group">
-                        <div className="relative aspect-square rounded-xl overflow-hidden bg-gray-100">
-                          <img
-                            src={image.url}
-                            alt={image.prompt}
-                            className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-105"
-                          />
-                          <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center space-x-3">
-                            <Button
-                              size="sm"
-                              variant="secondary"
-                              onClick={() => handleDownload(image.url, image.prompt)}
-                              className="bg-white/90 hover:bg-white"
-                            >
-                              <Download className="h-4 w-4" />
-                            </Button>
-                            <Button
-                              size="sm"
-                              variant="secondary"
-                              onClick={() => handleShare(image.url, image.prompt)}
-                              className="bg-white/90 hover:bg-white"
-                            >
-                              <Share2 className="h-4 w-4" />
-                            </Button>
+                    {batches.map((batch) => {
+                      const [first] = batch.images
+                      const job = jobs.find(j => j.batchId === batch.id)
+                      const isComparison = batch.images.length > 1
+                      const pickedId = isComparison ? job?.pickedImageId : null
+
+                      return (
+                        <div key={batch.id}>
+                          <div className={cn(isComparison && 'grid grid-cols-2 gap-3')}>
+                            {batch.images.map((image) => (
+                              <div key={image.id} className="space-y-2">
+                                <div
+                                  className={cn(
+                                    'group relative aspect-square rounded-xl overflow-hidden bg-gray-100',
+                                    pickedId === image.id && 'ring-4 ring-indigo-500'
+                                  )}
+                                >
+                                  <img
+                                    src={image.url}
+                                    alt={image.prompt}
+                                    className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-105"
+                                  />
+                                  <div
+                                    className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center space-x-3 cursor-zoom-in"
+                                    onClick={(event) => event.target === event.currentTarget && setLightboxIndex(viewerImages.indexOf(image))}
+                                  >
+                                    <Button
+                                      size="sm"
+                                      variant="secondary"
+                                      onClick={() => handleDownload(image)}
+                                      className="bg-white/90 hover:bg-white"
+                                    >
+                                      <Download className="h-4 w-4" />
+                                    </Button>
+                                    <Button
+                                      size="sm"
+                                      variant="secondary"
+                                      onClick={() => setSharingImage(image)}
+                                      className="bg-white/90 hover:bg-white"
+                                    >
+                                      <Share2 className="h-4 w-4" />
+                                    </Button>
+                                    {isComparison && job && (
+                                      <Button
+                                        size="sm"
+                                        variant="secondary"
+                                        onClick={() => pickFavorite(job.id, image.id)}
+                                        className="bg-white/90 hover:bg-white"
+                                        title="Pick as best variant"
+                                      >
+                                        <Trophy className={cn('h-4 w-4', pickedId === image.id && 'text-indigo-600')} />
+                                      </Button>
+                                    )}
+                                  </div>
+                                  {pickedId === image.id && (
+                                    <Badge className="absolute top-2 left-2 bg-indigo-600">Top pick</Badge>
+                                  )}
+                                </div>
+                                <ImageAnnotationControls image={image} onChange={replaceImage} />
+                              </div>
+                            ))}
                           </div>
-                        </div>
-                        <div className="mt-3 space-y-2">
-                          <p className="text-sm text-gray-600 line-clamp-2">
-                            {image.prompt}
-                          </p>
-                          <div className="flex items-center justify-between">
-                            <div className="flex space-x-2">
-                              <Badge variant="secondary" className="text-xs">
-                                {image.size}
-                              </Badge>
-                              <Badge variant="outline" className="text-xs">
-                                {image.quality}
-                              </Badge>
+                          <div className="mt-3 space-y-2">
+                            <p className="text-sm text-gray-600 line-clamp-2">
+                              {first.prompt}
+                            </p>
+                            <div className="flex items-center justify-between">
+                              <div className="flex space-x-2">
+                                <Badge variant="secondary" className="text-xs">
+                                  {first.size}
+                                </Badge>
+                                <Badge variant="outline" className="text-xs">
+                                  {first.quality}
+                                </Badge>
+                                {isComparison && (
+                                  <Badge variant="outline" className="text-xs">
+                                    {batch.images.length} variants
+                                  </Badge>
+                                )}
+                              </div>
+                              <span className="text-xs text-gray-400">
+                                {new Date(first.createdAt).toLocaleTimeString()}
+                              </span>
                             </div>
-                            <span className="text-xs text-gray-400">
-                              {new Date(image.createdAt).toLocaleTimeString()}
-                            </span>
+                            {isComparison && job && pickedId && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => discardUnpicked(job.id)}
+                                className="w-full"
+                              >
+                                <Trash2 className="h-4 w-4 mr-2" />
+                                Keep top pick, discard {batch.images.length - 1} other{batch.images.length > 2 ? 's' : ''}
+                              </Button>
+                            )}
                           </div>
                         </div>
-                      </div>
-                    ))}
+                      )
+                    })}
                   </div>
                 )}
               </CardContent>
@@ -340,6 +462,48 @@ export function ImageGenerator() {
           </div>
         </div>
       </div>
+
+      <ImageLightbox
+        images={viewerImages}
+        index={lightboxIndex}
+        onIndexChange={setLightboxIndex}
+        onClose={() => setLightboxIndex(null)}
+        onDownload={handleDownload}
+        onAnnotate={replaceImage}
+      />
+
+      <ShareLinksDialog
+        open={!!sharingImage}
+        onOpenChange={(open) => !open && setSharingImage(null)}
+        userId={sharingImage?.userId ?? null}
+        image={sharingImage}
+      />
+
+      <AlertDialog open={!!policyCheck} onOpenChange={(open) => !open && setPolicyCheck(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {policyCheck?.verdict.severity === 'review' ? 'This prompt needs review' : 'Check your prompt'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {policyCheck?.verdict.severity === 'review'
+                ? 'Your prompt matches the content policy. The images will stay hidden until a moderator approves them.'
+                : 'Your prompt may go against the content policy. Make sure it follows the guidelines before continuing.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="flex flex-wrap gap-1">
+            {policyCheck?.verdict.matches.map(match => (
+              <Badge key={match.ruleId} variant="outline">{match.excerpt}</Badge>
+            ))}
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Edit prompt</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmFlaggedPrompt}>
+              Generate anyway
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,291 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { Card, CardContent } from '../components/ui/card'
+import { Button } from '../components/ui/button'
+import { Badge } from '../components/ui/badge'
+import { Label } from '../components/ui/label'
+import { Textarea } from '../components/ui/textarea'
+import { Tabs, TabsList, TabsTrigger } from '../components/ui/tabs'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../components/ui/dialog'
+import { Check, EyeOff, Loader2, ShieldCheck, Trash2 } from 'lucide-react'
+import { blink } from '../lib/blink'
+import {
+  listModerationQueue,
+  countModerationQueue,
+  moderateImage,
+  moderationStatus,
+  isHeldForReview,
+  MODERATION_REASONS,
+  MODERATION_PAGE_SIZE,
+  type ModerationAction,
+  type ModerationStatus
+} from '../lib/moderation'
+import { listUsersById } from '../lib/metrics'
+import type { GeneratedImage } from '../lib/images'
+import toast from 'react-hot-toast'
+
+type QueueTab = ModerationStatus | 'all'
+
+const TABS: { value: QueueTab; label: string }[] = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'hidden', label: 'Hidden' },
+  { value: 'removed', label: 'Removed' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'all', label: 'All' }
+]
+
+const STATUS_BADGES: Record<ModerationStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  pending: { label: 'Pending', variant: 'outline' },
+  approved: { label: 'Approved', variant: 'default' },
+  hidden: { label: 'Hidden', variant: 'secondary' },
+  removed: { label: 'Removed', variant: 'destructive' }
+}
+
+export function Moderation() {
+  const [tab, setTab] = useState<QueueTab>('pending')
+  const [images, setImages] = useState<GeneratedImage[]>([])
+  const [counts, setCounts] = useState<Partial<Record<QueueTab, number>>>({})
+  const [owners, setOwners] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [hasMore, setHasMore] = useState(false)
+  // Last image of the latest page; it may have left the list since
+  const [cursor, setCursor] = useState<GeneratedImage | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [pendingAction, setPendingAction] = useState<{ image: GeneratedImage; action: Exclude<ModerationAction, 'approve'> } | null>(null)
+  const [reasonCategory, setReasonCategory] = useState(MODERATION_REASONS[0])
+  const [reasonNote, setReasonNote] = useState('')
+  const requestRef = useRef(0)
+
+  const loadCounts = useCallback(async () => {
+    try {
+      const entries = await Promise.all(TABS.map(async ({ value }) => [value, await countModerationQueue(value)] as const))
+      setCounts(Object.fromEntries(entries))
+    } catch (error) {
+      console.error('Failed to count moderation queue:', error)
+    }
+  }, [])
+
+  const loadImages = useCallback(async (after: GeneratedImage | null) => {
+    const request = ++requestRef.current
+    setLoading(true)
+    try {
+      const page = await listModerationQueue(tab, after)
+      const pageOwners = await listUsersById(page.map(image => image.userId))
+      if (request !== requestRef.current) return
+      setOwners(prev => ({
+        ...prev,
+        ...Object.fromEntries(Object.values(pageOwners).map(user => [user.id, user.email]))
+      }))
+      setImages(prev => after ? [...prev, ...page] : page)
+      setCursor(page[page.length - 1] ?? after)
+      setHasMore(page.length === MODERATION_PAGE_SIZE)
+    } catch (error) {
+      console.error('Failed to load moderation queue:', error)
+      toast.error('Failed to load moderation queue')
+    } finally {
+      if (request === requestRef.current) setLoading(false)
+    }
+  }, [tab])
+
+  useEffect(() => {
+    loadImages(null)
+  }, [loadImages])
+
+  useEffect(() => {
+    loadCounts()
+  }, [loadCounts])
+
+  const applyAction = async (image: GeneratedImage, action: ModerationAction, reason = '') => {
+    setBusyId(image.id)
+    try {
+      const moderator = await blink.auth.me()
+      const updated = await moderateImage(image, action, moderator.id, reason)
+      // Drop it from status tabs it no longer belongs to
+      setImages(prev => tab === 'all'
+        ? prev.map(i => i.id === image.id ? updated : i)
+        : prev.filter(i => i.id !== image.id))
+      loadCounts()
+      toast.success(action === 'approve' ? 'Image approved' : action === 'hide' ? 'Image hidden' : 'Image removed')
+    } catch (error) {
+      console.error('Failed to moderate image:', error)
+      toast.error('Failed to moderate image')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const openReasonDialog = (image: GeneratedImage, action: Exclude<ModerationAction, 'approve'>) => {
+    setPendingAction({ image, action })
+    setReasonCategory(MODERATION_REASONS[0])
+    setReasonNote('')
+  }
+
+  const confirmAction = async () => {
+    if (!pendingAction) return
+    const reason = reasonNote.trim() ? `${reasonCategory}: ${reasonNote.trim()}` : reasonCategory
+    const { image, action } = pendingAction
+    setPendingAction(null)
+    await applyAction(image, action, reason)
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold">Moderation</h1>
+        <p className="text-muted-foreground">
+          Review images from every user. Owners are notified when an image is hidden or removed.
+        </p>
+      </div>
+
+      <Tabs value={tab} onValueChange={(value) => setTab(value as QueueTab)}>
+        <TabsList>
+          {TABS.map(({ value, label }) => (
+            <TabsTrigger key={value} value={value}>
+              {label}
+              {counts[value] !== undefined && (
+                <span className="ml-1.5 text-xs text-muted-foreground">{counts[value]}</span>
+              )}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      {images.length === 0 && !loading ? (
+        <div className="text-center py-12">
+          <ShieldCheck className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+          <h3 className="text-lg font-semibold mb-2">Nothing here</h3>
+          <p className="text-muted-foreground">
+            {tab === 'pending' ? 'Every image has been reviewed' : 'No images with this status'}
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+          {images.map(image => {
+            const status = moderationStatus(image)
+            const held = isHeldForReview(image)
+            const badge = held ? { label: 'Held for review', variant: 'outline' as const } : STATUS_BADGES[status]
+            const busy = busyId === image.id
+
+            return (
+              <Card key={image.id} className="overflow-hidden">
+                <div className="aspect-square relative">
+                  <img src={image.url} alt={image.prompt} className="w-full h-full object-cover" />
+                  <Badge variant={badge.variant} className="absolute top-3 left-3">{badge.label}</Badge>
+                </div>
+                <CardContent className="p-4 space-y-3">
+                  <p className="text-sm text-muted-foreground line-clamp-3">{image.prompt}</p>
+                  <div className="text-xs text-muted-foreground space-y-1">
+                    <p className="truncate">{owners[image.userId] ?? image.userId}</p>
+                    <p>{new Date(image.createdAt).toLocaleString()}</p>
+                    {image.moderationReason && (
+                      <p className="text-foreground">Reason: {image.moderationReason}</p>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="flex-1"
+                      onClick={() => applyAction(image, 'approve')}
+                      disabled={busy || status === 'approved'}
+                    >
+                      <Check className="h-4 w-4 mr-1" />
+                      Approve
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => openReasonDialog(image, 'hide')}
+                      disabled={busy || (status === 'hidden' && !held)}
+                      title="Hide"
+                    >
+                      <EyeOff className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => openReasonDialog(image, 'remove')}
+                      disabled={busy || status === 'removed'}
+                      title="Remove"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )
+          })}
+        </div>
+      )}
+
+      {loading && (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      )}
+      {hasMore && !loading && (
+        <div className="flex justify-center">
+          <Button variant="outline" onClick={() => loadImages(cursor)}>
+            Load more
+          </Button>
+        </div>
+      )}
+
+      <Dialog open={!!pendingAction} onOpenChange={(open) => !open && setPendingAction(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{pendingAction?.action === 'hide' ? 'Hide image' : 'Remove image'}</DialogTitle>
+            <DialogDescription>
+              {pendingAction?.action === 'hide'
+                ? "The owner keeps the image but can't share it."
+                : 'The image leaves the owner\'s gallery and stops counting toward their quota.'}
+              {' '}The owner is notified with the reason below.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Reason</Label>
+              <Select value={reasonCategory} onValueChange={setReasonCategory}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MODERATION_REASONS.map(reason => (
+                    <SelectItem key={reason} value={reason}>{reason}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="moderationNote">Note</Label>
+              <Textarea
+                id="moderationNote"
+                value={reasonNote}
+                onChange={(e) => setReasonNote(e.target.value)}
+                placeholder="Optional details for the owner"
+                maxLength={300}
+                rows={3}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingAction(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={confirmAction}>
+              {pendingAction?.action === 'hide' ? 'Hide image' : 'Remove image'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,241 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { Card, CardContent } from '../components/ui/card'
+import { Button } from '../components/ui/button'
+import { Badge } from '../components/ui/badge'
+import { Tabs, TabsList, TabsTrigger } from '../components/ui/tabs'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '../components/ui/table'
+import { EyeOff, Flag, Loader2, Trash2, X } from 'lucide-react'
+import { blink } from '../lib/blink'
+import {
+  listReports,
+  countReports,
+  resolveReports,
+  reportReasonLabel,
+  REPORT_PAGE_SIZE,
+  type ImageReport,
+  type ReportStatus
+} from '../lib/reports'
+import { moderateImage, moderationStatus, type ModerationAction } from '../lib/moderation'
+import type { GeneratedImage } from '../lib/images'
+import toast from 'react-hot-toast'
+
+const TABS: { value: ReportStatus; label: string }[] = [
+  { value: 'open', label: 'Open' },
+  { value: 'actioned', label: 'Actioned' },
+  { value: 'dismissed', label: 'Dismissed' }
+]
+
+export function Reports() {
+  const [tab, setTab] = useState<ReportStatus>('open')
+  const [reports, setReports] = useState<ImageReport[]>([])
+  const [images, setImages] = useState<Record<string, GeneratedImage>>({})
+  const [counts, setCounts] = useState<Partial<Record<ReportStatus, number>>>({})
+  const [loading, setLoading] = useState(true)
+  const [hasMore, setHasMore] = useState(false)
+  // Last report of the latest page; it may have left the list since
+  const [cursor, setCursor] = useState<ImageReport | null>(null)
+  const [busyImageId, setBusyImageId] = useState<string | null>(null)
+  const requestRef = useRef(0)
+
+  const loadCounts = useCallback(async () => {
+    try {
+      const entries = await Promise.all(TABS.map(async ({ value }) => [value, await countReports(value)] as const))
+      setCounts(Object.fromEntries(entries))
+    } catch (error) {
+      console.error('Failed to count reports:', error)
+    }
+  }, [])
+
+  const loadReports = useCallback(async (after: ImageReport | null) => {
+    const request = ++requestRef.current
+    setLoading(true)
+    try {
+      const page = await listReports(tab, after)
+      const imageIds = [...new Set(page.map(report => report.imageId))]
+      const pageImages: GeneratedImage[] = imageIds.length > 0
+        ? await blink.db.generatedImages.list({ where: { id: { in: imageIds } } })
+        : []
+      if (request !== requestRef.current) return
+
+      setImages(prev => ({ ...prev, ...Object.fromEntries(pageImages.map(image => [image.id, image])) }))
+      setReports(prev => after ? [...prev, ...page] : page)
+      setCursor(page[page.length - 1] ?? after)
+      setHasMore(page.length === REPORT_PAGE_SIZE)
+    } catch (error) {
+      console.error('Failed to load reports:', error)
+      toast.error('Failed to load reports')
+    } finally {
+      if (request === requestRef.current) setLoading(false)
+    }
+  }, [tab])
+
+  useEffect(() => {
+    loadReports(null)
+  }, [loadReports])
+
+  useEffect(() => {
+    loadCounts()
+  }, [loadCounts])
+
+  // Acting on a report closes every open report on the same image
+  const handleResolve = async (report: ImageReport, action: Exclude<ModerationAction, 'approve'> | 'dismiss') => {
+    setBusyImageId(report.imageId)
+    try {
+      const admin = await blink.auth.me()
+      const image = images[report.imageId]
+      if (action !== 'dismiss' && image) {
+        const updated = await moderateImage(image, action, admin.id, reportReasonLabel(report.reason))
+        setImages(prev => ({ ...prev, [image.id]: updated }))
+      }
+      const closed = await resolveReports(report, action === 'dismiss' ? 'dismissed' : 'actioned', admin.id)
+      setReports(prev => prev.filter(r => !closed.includes(r.id)))
+      loadCounts()
+      toast.success(action === 'dismiss' ? 'Report dismissed' : action === 'hide' ? 'Image hidden' : 'Image removed')
+    } catch (error) {
+      console.error('Failed to resolve report:', error)
+      toast.error('Failed to resolve report')
+    } finally {
+      setBusyImageId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold">Reports</h1>
+        <p className="text-muted-foreground">
+          Images flagged by users. Hiding or removing an image notifies its owner.
+        </p>
+      </div>
+
+      <Tabs value={tab} onValueChange={(value) => setTab(value as ReportStatus)}>
+        <TabsList>
+          {TABS.map(({ value, label }) => (
+            <TabsTrigger key={value} value={value}>
+              {label}
+              {counts[value] !== undefined && (
+                <span className="ml-1.5 text-xs text-muted-foreground">{counts[value]}</span>
+              )}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      <Card>
+        <CardContent className="p-0">
+          {reports.length === 0 && !loading ? (
+            <div className="text-center py-12">
+              <Flag className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-semibold mb-2">No reports</h3>
+              <p className="text-muted-foreground">
+                {tab === 'open' ? 'Nothing is waiting for review' : 'No reports have been closed this way yet'}
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[88px]">Image</TableHead>
+                  <TableHead>Report</TableHead>
+                  <TableHead>Reporter</TableHead>
+                  <TableHead>Reported</TableHead>
+                  {tab === 'open' && <TableHead className="text-right">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reports.map(report => {
+                  const image = images[report.imageId]
+                  const busy = busyImageId === report.imageId
+
+                  return (
+                    <TableRow key={report.id}>
+                      <TableCell>
+                        {image ? (
+                          <img src={image.url} alt={image.prompt} className="h-16 w-16 rounded-md object-cover" />
+                        ) : (
+                          <div className="h-16 w-16 rounded-md bg-muted" title="Image deleted" />
+                        )}
+                      </TableCell>
+                      <TableCell className="max-w-md">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{reportReasonLabel(report.reason)}</span>
+                          {image && moderationStatus(image) !== 'pending' && (
+                            <Badge variant="outline" className="capitalize">{moderationStatus(image)}</Badge>
+                          )}
+                        </div>
+                        {report.comment && (
+                          <p className="text-sm text-muted-foreground line-clamp-2">{report.comment}</p>
+                        )}
+                        {image && (
+                          <p className="text-xs text-muted-foreground line-clamp-1">Prompt: {image.prompt}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">{report.reporterEmail}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                        {new Date(report.createdAt).toLocaleString()}
+                      </TableCell>
+                      {tab === 'open' && (
+                        <TableCell>
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleResolve(report, 'hide')}
+                              disabled={busy || !image}
+                              title="Hide image"
+                            >
+                              <EyeOff className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleResolve(report, 'remove')}
+                              disabled={busy || !image}
+                              title="Remove image"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => handleResolve(report, 'dismiss')}
+                              disabled={busy}
+                              title="Dismiss"
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {loading && (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      )}
+      {hasMore && !loading && (
+        <div className="flex justify-center">
+          <Button variant="outline" onClick={() => loadReports(cursor)}>
+            Load more
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,11 +1,23 @@
-import { useState } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { useForm, type Control } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
 import { Button } from '../components/ui/button'
 import { Input } from '../components/ui/input'
-import { Label } from '../components/ui/label'
+import { Textarea } from '../components/ui/textarea'
 import { Switch } from '../components/ui/switch'
 import { Separator } from '../components/ui/separator'
 import { Badge } from '../components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from '../components/ui/form'
 import { 
   Settings as SettingsIcon, 
   Save, 
@@ -14,52 +26,172 @@ import {
   Bell,
   Palette,
   Server,
-  Key
+  Key,
+  History,
+  Loader2,
+  AlertTriangle
 } from 'lucide-react'
+import { blink } from '../lib/blink'
+import { useSettings } from '../hooks/use-settings'
+import { REGISTRATION_MODES } from '../lib/access'
+import {
+  settingsSchema,
+  listSettingsHistory,
+  parseSettingsChanges,
+  formatSettingValue,
+  SETTINGS_LABELS,
+  type SystemSettings,
+  type SettingsHistoryEntry
+} from '../lib/settings'
 import toast from 'react-hot-toast'
 
-interface SystemSettings {
-  siteName: string
-  siteDescription: string
-  maxImagesPerUser: number
-  enableRegistration: boolean
-  enableNotifications: boolean
-  maintenanceMode: boolean
-  apiRateLimit: number
-  storageLimit: number
+// datetime-local inputs work in local time without a zone; the setting is
+// stored as an ISO timestamp so every viewer sees the same moment
+const toLocalInput = (iso: string) => {
+  if (!iso) return ''
+  const date = new Date(iso)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 16)
+}
+
+type NumberSetting = 'maxImagesPerUser' | 'apiRateLimit' | 'storageLimit' | 'trashRetentionDays'
+type ToggleSetting = 'enableNotifications' | 'maintenanceMode'
+
+interface NumberFieldProps {
+  control: Control<SystemSettings>
+  name: NumberSetting
+  label: string
+  placeholder: string
+  description: string
+}
+
+function NumberField({ control, name, label, placeholder, description }: NumberFieldProps) {
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input
+              type="number"
+              {...field}
+              value={Number.isNaN(field.value) ? '' : field.value}
+              onChange={(e) => field.onChange(e.target.valueAsNumber)}
+              placeholder={placeholder}
+            />
+          </FormControl>
+          <FormDescription className="text-xs">{description}</FormDescription>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  )
+}
+
+interface ToggleFieldProps {
+  control: Control<SystemSettings>
+  name: ToggleSetting
+  label: string
+  description: string
+  activeBadge?: string
+}
+
+function ToggleField({ control, name, label, description, activeBadge }: ToggleFieldProps) {
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem className="flex items-center justify-between space-y-0">
+          <div className="space-y-0.5">
+            <FormLabel>{label}</FormLabel>
+            <FormDescription>{description}</FormDescription>
+          </div>
+          <div className="flex items-center space-x-2">
+            {activeBadge && field.value && (
+              <Badge variant="destructive">{activeBadge}</Badge>
+            )}
+            <FormControl>
+              <Switch checked={field.value} onCheckedChange={field.onChange} />
+            </FormControl>
+          </div>
+        </FormItem>
+      )}
+    />
+  )
 }
 
 export function Settings() {
-  const [settings, setSettings] = useState<SystemSettings>({
-    siteName: 'AI Image Generator',
-    siteDescription: 'Generate stunning AI-powered images with ease',
-    maxImagesPerUser: 100,
-    enableRegistration: true,
-    enableNotifications: true,
-    maintenanceMode: false,
-    apiRateLimit: 60,
-    storageLimit: 1000
+  const { settings, loading, save } = useSettings()
+  const [history, setHistory] = useState<SettingsHistoryEntry[]>([])
+  const form = useForm<SystemSettings>({
+    resolver: zodResolver(settingsSchema),
+    defaultValues: settings
   })
-  const [saving, setSaving] = useState(false)
+  const { isDirty, isSubmitting } = form.formState
+  const maintenanceMode = form.watch('maintenanceMode')
+  const registrationMode = form.watch('registrationMode')
+
+  // The stored settings the form was last reset to
+  const baselineRef = useRef<SystemSettings | null>(null)
+  // Set when another admin saved while this form had unsaved edits
+  const [staleSettings, setStaleSettings] = useState(false)
+
+  // Pick up the stored settings when they load and after each save. If they
+  // change while the form has edits of its own, keep the edits and warn
+  // instead of wiping them.
+  useEffect(() => {
+    if (settings === baselineRef.current) return
+    const values = form.getValues()
+    const matchesForm = (Object.keys(settings) as (keyof SystemSettings)[])
+      .every(key => settings[key] === values[key])
+    if (isDirty && !matchesForm) {
+      setStaleSettings(true)
+      return
+    }
+    baselineRef.current = settings
+    form.reset(settings)
+    setStaleSettings(false)
+  }, [settings, isDirty, form])
+
+  const loadHistory = useCallback(async () => {
+    try {
+      setHistory(await listSettingsHistory())
+    } catch (error) {
+      console.error('Failed to load settings history:', error)
+    }
+  }, [])
 
-  const handleSave = async () => {
-    setSaving(true)
+  useEffect(() => {
+    loadHistory()
+  }, [loadHistory])
+
+  const handleSave = async (values: SystemSettings) => {
     try {
-      // In a real app, you'd save these settings to the database
-      await new Promise(resolve => setTimeout(resolve, 1000)) // Simulate API call
-      toast.success('Settings saved successfully!')
+      const admin = await blink.auth.me()
+      const changes = await save(values, { id: admin.id, email: admin.email })
+      // Settle the form on what was saved, so the update coming back from the
+      // provider isn't mistaken for someone else's change
+      form.reset(values)
+      if (changes.length === 0) {
+        toast('No changes to save')
+      } else {
+        toast.success('Settings saved successfully!')
+        loadHistory()
+      }
     } catch (error) {
+      console.error('Failed to save settings:', error)
       toast.error('Failed to save settings')
-    } finally {
-      setSaving(false)
     }
   }
 
-  const handleInputChange = (key: keyof SystemSettings, value: string | number | boolean) => {
-    setSettings(prev => ({
-      ...prev,
-      [key]: value
-    }))
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    )
   }
 
   return (
@@ -72,156 +204,231 @@ export function Settings() {
             Configure system settings and preferences
           </p>
         </div>
-        <Button onClick={handleSave} disabled={saving}>
-          {saving ? (
-            <>
-              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-              Saving...
-            </>
-          ) : (
-            <>
-              <Save className="h-4 w-4 mr-2" />
-              Save Changes
-            </>
+        <div className="flex items-center gap-2">
+          {isDirty && !isSubmitting && (
+            <Button variant="ghost" onClick={() => form.reset(settings)}>
+              Discard
+            </Button>
           )}
-        </Button>
+          <Button type="submit" form="settings-form" disabled={isSubmitting || !isDirty}>
+            {isSubmitting ? (
+              <>
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                Saving...
+              </>
+            ) : (
+              <>
+                <Save className="h-4 w-4 mr-2" />
+                Save Changes
+              </>
+            )}
+          </Button>
+        </div>
       </div>
 
-      {/* General Settings */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center space-x-2">
-            <SettingsIcon className="h-4 w-4" />
-            <span>General Settings</span>
-          </CardTitle>
-        </CardHeader>
-        <CardContent className="space-y-6">
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <div className="space-y-2">
-              <Label htmlFor="siteName">Site Name</Label>
-              <Input
-                id="siteName"
-                value={settings.siteName}
-                onChange={(e) => handleInputChange('siteName', e.target.value)}
-                placeholder="Enter site name"
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="siteDescription">Site Description</Label>
-              <Input
-                id="siteDescription"
-                value={settings.siteDescription}
-                onChange={(e) => handleInputChange('siteDescription', e.target.value)}
-                placeholder="Enter site description"
-              />
-            </div>
-          </div>
-
-          <Separator />
+      {staleSettings && (
+        <div className="flex items-center gap-3 rounded-lg border border-amber-200 bg-amber-100 px-4 py-3 text-sm text-amber-900">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          <p className="flex-1">
+            Another admin changed these settings while you were editing. Saving will overwrite their changes.
+          </p>
+          <Button size="sm" variant="outline" onClick={() => form.reset(settings)}>
+            Discard mine and load theirs
+          </Button>
+        </div>
+      )}
 
-          <div className="space-y-4">
-            <div className="flex items-center justify-between">
-              <div className="space-y-0.5">
-                <Label>User Registration</Label>
-                <p className="text-sm text-muted-foreground">
-                  Allow new users to register accounts
-                </p>
+      <Form {...form}>
+        <form id="settings-form" onSubmit={form.handleSubmit(handleSave)} className="space-y-6">
+          {/* General Settings */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <SettingsIcon className="h-4 w-4" />
+                <span>General Settings</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <FormField
+                  control={form.control}
+                  name="siteName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Site Name</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Enter site name" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="siteDescription"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Site Description</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Enter site description" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               </div>
-              <Switch
-                checked={settings.enableRegistration}
-                onCheckedChange={(checked) => handleInputChange('enableRegistration', checked)}
-              />
-            </div>
 
-            <div className="flex items-center justify-between">
-              <div className="space-y-0.5">
-                <Label>Notifications</Label>
-                <p className="text-sm text-muted-foreground">
-                  Enable system notifications
-                </p>
-              </div>
-              <Switch
-                checked={settings.enableNotifications}
-                onCheckedChange={(checked) => handleInputChange('enableNotifications', checked)}
-              />
-            </div>
+              <Separator />
 
-            <div className="flex items-center justify-between">
-              <div className="space-y-0.5">
-                <Label>Maintenance Mode</Label>
-                <p className="text-sm text-muted-foreground">
-                  Put the site in maintenance mode
-                </p>
-              </div>
-              <div className="flex items-center space-x-2">
-                {settings.maintenanceMode && (
-                  <Badge variant="destructive">Active</Badge>
+              <div className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="registrationMode"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between space-y-0 gap-4">
+                      <div className="space-y-0.5">
+                        <FormLabel>User Registration</FormLabel>
+                        <FormDescription>
+                          {REGISTRATION_MODES.find(mode => mode.value === field.value)?.description}
+                        </FormDescription>
+                      </div>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger className="w-44">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {REGISTRATION_MODES.map(mode => (
+                            <SelectItem key={mode.value} value={mode.value}>{mode.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+
+                {registrationMode === 'allowlist' && (
+                  <FormField
+                    control={form.control}
+                    name="allowedDomains"
+                    render={({ field }) => (
+                      <FormItem className="p-4 border rounded-lg">
+                        <FormLabel>Allowed Domains</FormLabel>
+                        <FormControl>
+                          <Textarea rows={2} placeholder="example.com, example.org" {...field} />
+                        </FormControl>
+                        <FormDescription className="text-xs">
+                          Separate domains with commas or spaces. Invite codes still work for other addresses.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                 )}
-                <Switch
-                  checked={settings.maintenanceMode}
-                  onCheckedChange={(checked) => handleInputChange('maintenanceMode', checked)}
+
+                <ToggleField
+                  control={form.control}
+                  name="enableNotifications"
+                  label="Notifications"
+                  description="Enable system notifications"
+                />
+                <ToggleField
+                  control={form.control}
+                  name="maintenanceMode"
+                  label="Maintenance Mode"
+                  description="Put the site in maintenance mode"
+                  activeBadge="Active"
                 />
-              </div>
-            </div>
-          </div>
-        </CardContent>
-      </Card>
 
-      {/* API & Limits */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center space-x-2">
-            <Server className="h-4 w-4" />
-            <span>API & Limits</span>
-          </CardTitle>
-        </CardHeader>
-        <CardContent className="space-y-6">
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <div className="space-y-2">
-              <Label htmlFor="maxImages">Max Images per User</Label>
-              <Input
-                id="maxImages"
-                type="number"
-                value={settings.maxImagesPerUser}
-                onChange={(e) => handleInputChange('maxImagesPerUser', parseInt(e.target.value) || 0)}
-                placeholder="100"
-              />
-              <p className="text-xs text-muted-foreground">
-                Maximum number of images a user can generate
-              </p>
-            </div>
+                {maintenanceMode && (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-6 p-4 border rounded-lg">
+                    <FormField
+                      control={form.control}
+                      name="maintenanceMessage"
+                      render={({ field }) => (
+                        <FormItem className="md:col-span-2">
+                          <FormLabel>Maintenance Message</FormLabel>
+                          <FormControl>
+                            <Textarea rows={3} placeholder="What users see while the site is down" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="maintenanceEndsAt"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Scheduled End</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="datetime-local"
+                              {...field}
+                              value={toLocalInput(field.value)}
+                              onChange={(e) => field.onChange(e.target.value ? new Date(e.target.value).toISOString() : '')}
+                            />
+                          </FormControl>
+                          <FormDescription className="text-xs">
+                            Optional. Maintenance ends automatically at this time.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
 
-            <div className="space-y-2">
-              <Label htmlFor="rateLimit">API Rate Limit (per minute)</Label>
-              <Input
-                id="rateLimit"
-                type="number"
-                value={settings.apiRateLimit}
-                onChange={(e) => handleInputChange('apiRateLimit', parseInt(e.target.value) || 0)}
-                placeholder="60"
-              />
-              <p className="text-xs text-muted-foreground">
-                Maximum API requests per minute per user
-              </p>
-            </div>
-          </div>
+          {/* API & Limits */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Server className="h-4 w-4" />
+                <span>API & Limits</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <NumberField
+                  control={form.control}
+                  name="maxImagesPerUser"
+                  label="Max Images per User"
+                  placeholder="100"
+                  description="Maximum number of images a user can generate"
+                />
+                <NumberField
+                  control={form.control}
+                  name="apiRateLimit"
+                  label="API Rate Limit (per minute)"
+                  placeholder="60"
+                  description="Maximum API requests per minute per user. 0 turns the limit off."
+                />
+              </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="storageLimit">Storage Limit (MB)</Label>
-            <Input
-              id="storageLimit"
-              type="number"
-              value={settings.storageLimit}
-              onChange={(e) => handleInputChange('storageLimit', parseInt(e.target.value) || 0)}
-              placeholder="1000"
-              className="max-w-xs"
-            />
-            <p className="text-xs text-muted-foreground">
-              Maximum storage space for generated images
-            </p>
-          </div>
-        </CardContent>
-      </Card>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <NumberField
+                  control={form.control}
+                  name="storageLimit"
+                  label="Storage Limit (MB)"
+                  placeholder="1000"
+                  description="Maximum storage space for generated images"
+                />
+                <NumberField
+                  control={form.control}
+                  name="trashRetentionDays"
+                  label="Trash Retention (days)"
+                  placeholder="30"
+                  description="How long deleted images stay restorable before they are purged"
+                />
+              </div>
+            </CardContent>
+          </Card>
+        </form>
+      </Form>
 
       {/* Security */}
       <Card>
@@ -323,6 +530,45 @@ export function Settings() {
         </CardContent>
       </Card>
 
+      {/* Change History */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <History className="h-4 w-4" />
+            <span>Change History</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No changes have been saved yet</p>
+          ) : (
+            <div className="space-y-4">
+              {history.map((entry) => (
+                <div key={entry.id} className="p-4 border rounded-lg space-y-2">
+                  <div className="flex items-center justify-between gap-4">
+                    <p className="text-sm font-medium truncate">{entry.changedByEmail}</p>
+                    <p className="text-xs text-muted-foreground shrink-0">
+                      {new Date(entry.createdAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <ul className="space-y-1">
+                    {parseSettingsChanges(entry).map((change) => (
+                      <li key={change.field} className="text-sm text-muted-foreground">
+                        <span className="text-foreground">{SETTINGS_LABELS[change.field] ?? change.field}</span>
+                        {': '}
+                        <span className="line-through">{formatSettingValue(change.field, change.before)}</span>
+                        {' → '}
+                        <span className="text-foreground">{formatSettingValue(change.field, change.after)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* System Status */}
       <Card>
         <CardHeader>
@@ -347,4 +593,4 @@ export function Settings() {
       </Card>
     </div>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,95 @@
+import { useState, useEffect } from 'react'
+import { Button } from '../components/ui/button'
+import { Badge } from '../components/ui/badge'
+import { ReportImageDialog } from '../components/gallery/ReportImageDialog'
+import { Flag, ImageOff, Loader2, Sparkles } from 'lucide-react'
+import { resolveShareLink, recordShareView, type SharedImage as SharedImageResult } from '../lib/share-links'
+
+interface SharedImageProps {
+  token: string
+  // The signed-in visitor, if any; only they can report the image
+  viewerId?: string | null
+}
+
+// Public page behind a share link. Rendered outside the signed-in app so
+// visitors don't need an account.
+export function SharedImage({ token, viewerId }: SharedImageProps) {
+  const [shared, setShared] = useState<SharedImageResult | null>(null)
+  const [reporting, setReporting] = useState(false)
+
+  useEffect(() => {
+    resolveShareLink(token)
+      .then(result => {
+        setShared(result)
+        if (result.available) {
+          recordShareView(result.link).catch(error => console.error('Failed to record view:', error))
+        }
+      })
+      .catch(error => {
+        console.error('Failed to load shared image:', error)
+        setShared({ available: false })
+      })
+  }, [token])
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-purple-50">
+      <div className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+        <a href="/" className="flex items-center justify-center space-x-2">
+          <div className="p-2 bg-gradient-to-r from-indigo-500 to-purple-600 rounded-xl">
+            <Sparkles className="h-5 w-5 text-white" />
+          </div>
+          <span className="text-xl font-bold bg-gradient-to-r from-indigo-600 to-purple-600 bg-clip-text text-transparent">
+            AI Image Generator
+          </span>
+        </a>
+
+        {!shared ? (
+          <div className="flex justify-center py-24">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : !shared.available ? (
+          <div className="text-center py-24 space-y-4">
+            <ImageOff className="h-16 w-16 text-muted-foreground mx-auto" />
+            <h1 className="text-2xl font-semibold">This link isn't available</h1>
+            <p className="text-gray-600">It may have expired or been turned off by its owner.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="rounded-2xl overflow-hidden shadow-xl bg-white">
+              <img src={shared.image.url} alt={Number(shared.link.hidePrompt) ? 'AI-generated image' : shared.image.prompt} className="w-full h-auto" />
+            </div>
+            <div className="space-y-3">
+              {!Number(shared.link.hidePrompt) && (
+                <p className="text-gray-700 whitespace-pre-wrap">{shared.image.prompt}</p>
+              )}
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <Badge variant="secondary">{shared.image.size}</Badge>
+                  <span className="text-sm text-gray-500">
+                    {new Date(shared.image.createdAt).toLocaleDateString()}
+                  </span>
+                </div>
+                <div className="flex gap-2">
+                  {viewerId && viewerId !== shared.image.userId && (
+                    <Button variant="ghost" size="sm" onClick={() => setReporting(true)}>
+                      <Flag className="h-4 w-4 mr-2" />
+                      Report
+                    </Button>
+                  )}
+                  <Button asChild size="sm" className="bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700">
+                    <a href="/">Create your own</a>
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <ReportImageDialog
+        image={reporting && shared?.available ? shared.image : null}
+        onClose={() => setReporting(false)}
+      />
+    </div>
+  )
+}
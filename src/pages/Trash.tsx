@@ -0,0 +1,241 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Link } from 'react-router-dom'
+import { Card, CardContent } from '../components/ui/card'
+import { Button } from '../components/ui/button'
+import { Checkbox } from '../components/ui/checkbox'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '../components/ui/alert-dialog'
+import { ArrowLeft, Loader2, RotateCcw, Trash2 } from 'lucide-react'
+import { blink } from '../lib/blink'
+import {
+  listTrashedImages,
+  restoreImages,
+  purgeImages,
+  purgeExpiredTrash,
+  purgeDate,
+  type GeneratedImage
+} from '../lib/images'
+import { useGenerationQueue } from '../hooks/use-generation-queue'
+import { useSettings } from '../hooks/use-settings'
+import { cn } from '../lib/utils'
+import toast from 'react-hot-toast'
+
+const daysUntil = (date: Date) => Math.max(0, Math.ceil((date.getTime() - Date.now()) / (24 * 60 * 60 * 1000)))
+
+export function Trash() {
+  const { settings, loading: settingsLoading } = useSettings()
+  const retentionDays = settings.trashRetentionDays
+  const [userId, setUserId] = useState<string | null>(null)
+  const [images, setImages] = useState<GeneratedImage[]>([])
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [confirmPurge, setConfirmPurge] = useState<string[] | null>(null)
+  const { refreshQuota } = useGenerationQueue()
+
+  useEffect(() => {
+    blink.auth.me()
+      .then(user => setUserId(user.id))
+      .catch(error => {
+        console.error('Failed to load user:', error)
+        toast.error('Failed to load trash')
+        setLoading(false)
+      })
+  }, [])
+
+  const loadTrash = useCallback(async () => {
+    // Wait for the real retention period so nothing is purged early
+    if (!userId || settingsLoading) return
+    try {
+      const purged = await purgeExpiredTrash(userId, retentionDays)
+      if (purged > 0) {
+        refreshQuota()
+        toast(`Permanently deleted ${purged} expired image${purged === 1 ? '' : 's'}`)
+      }
+      setImages(await listTrashedImages(userId))
+    } catch (error) {
+      console.error('Failed to load trash:', error)
+      toast.error('Failed to load trash')
+    } finally {
+      setLoading(false)
+    }
+  }, [userId, settingsLoading, retentionDays, refreshQuota])
+
+  useEffect(() => {
+    loadTrash()
+  }, [loadTrash])
+
+  const toggleSelected = (imageId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev)
+      if (next.has(imageId)) {
+        next.delete(imageId)
+      } else {
+        next.add(imageId)
+      }
+      return next
+    })
+  }
+
+  const dropFromList = (imageIds: string[]) => {
+    setImages(prev => prev.filter(image => !imageIds.includes(image.id)))
+    setSelectedIds(prev => new Set([...prev].filter(id => !imageIds.includes(id))))
+  }
+
+  const handleRestore = async (imageIds: string[]) => {
+    setBusy(true)
+    try {
+      await restoreImages(imageIds)
+      dropFromList(imageIds)
+      toast.success(`Restored ${imageIds.length} image${imageIds.length === 1 ? '' : 's'}`)
+    } catch (error) {
+      console.error('Failed to restore images:', error)
+      toast.error('Failed to restore images')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handlePurge = async (imageIds: string[]) => {
+    setBusy(true)
+    try {
+      await purgeImages(imageIds)
+      dropFromList(imageIds)
+      refreshQuota()
+      toast.success(`Permanently deleted ${imageIds.length} image${imageIds.length === 1 ? '' : 's'}`)
+    } catch (error) {
+      console.error('Failed to delete images:', error)
+      toast.error('Failed to delete images')
+    } finally {
+      setBusy(false)
+      setConfirmPurge(null)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  const selected = [...selectedIds]
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <Button variant="ghost" size="sm" asChild className="mb-2 -ml-2">
+            <Link to="/gallery">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Gallery
+            </Link>
+          </Button>
+          <h1 className="text-3xl font-bold">Trash</h1>
+          <p className="text-muted-foreground">
+            Deleted images are kept for {retentionDays} days before they are permanently removed.
+            They still count toward your image quota until then.
+          </p>
+        </div>
+        {images.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={() => handleRestore(selected)} disabled={selected.length === 0 || busy}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Restore{selected.length > 0 && ` (${selected.length})`}
+            </Button>
+            <Button variant="outline" onClick={() => setConfirmPurge(selected)} disabled={selected.length === 0 || busy}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete forever
+            </Button>
+            <Button variant="destructive" onClick={() => setConfirmPurge(images.map(image => image.id))} disabled={busy}>
+              Empty trash
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {images.length === 0 ? (
+        <div className="text-center py-12">
+          <Trash2 className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+          <h3 className="text-lg font-semibold mb-2">Trash is empty</h3>
+          <p className="text-muted-foreground">Images you delete from the Gallery show up here</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+          {images.map((image) => {
+            const isSelected = selectedIds.has(image.id)
+            const remaining = daysUntil(purgeDate(image, retentionDays))
+
+            return (
+              <Card key={image.id} className={cn('overflow-hidden', isSelected && 'ring-2 ring-primary')}>
+                <div
+                  className="aspect-square relative cursor-pointer"
+                  onClick={() => toggleSelected(image.id)}
+                >
+                  <img
+                    src={image.url}
+                    alt={image.prompt}
+                    className="w-full h-full object-cover opacity-75"
+                  />
+                  <Checkbox
+                    checked={isSelected}
+                    className="absolute top-3 left-3 bg-white pointer-events-none"
+                    aria-label="Select image"
+                  />
+                </div>
+                <CardContent className="p-4 space-y-3">
+                  <p className="text-sm text-muted-foreground line-clamp-2">{image.prompt}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Deleted {new Date(image.deletedAt!).toLocaleDateString()} ·{' '}
+                    {remaining === 0 ? 'removed on next visit' : `removed in ${remaining} day${remaining === 1 ? '' : 's'}`}
+                  </p>
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" className="flex-1" onClick={() => handleRestore([image.id])} disabled={busy}>
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      Restore
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setConfirmPurge([image.id])} disabled={busy} title="Delete forever">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )
+          })}
+        </div>
+      )}
+
+      <AlertDialog open={!!confirmPurge} onOpenChange={(open) => !open && setConfirmPurge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Permanently delete {confirmPurge?.length} image{confirmPurge?.length === 1 ? '' : 's'}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              This can't be undone. The images will also be removed from any collections.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => confirmPurge && handlePurge(confirmPurge)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete forever
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -1,9 +1,20 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
 import { Button } from '../components/ui/button'
 import { Input } from '../components/ui/input'
 import { Badge } from '../components/ui/badge'
 import { Avatar, AvatarFallback } from '../components/ui/avatar'
+import { Label } from '../components/ui/label'
+import { Textarea } from '../components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../components/ui/dialog'
 import { 
   Table,
   TableBody,
@@ -16,6 +27,12 @@ import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from '../components/ui/dropdown-menu'
 import { 
@@ -25,9 +42,27 @@ import {
   UserCheck,
   UserX,
   Shield,
-  Calendar
+  Calendar,
+  Loader2
 } from 'lucide-react'
 import { blink } from '../lib/blink'
+import { useSettings } from '../hooks/use-settings'
+import { usePermissions } from '../hooks/use-permissions'
+import { getUserQuota, listQuotaOverrides, setQuotaOverride, type QuotaOverride } from '../lib/quota'
+import { countUsers, listUserActivity, listUsersPage, USERS_PAGE_SIZE, type MetricsUser } from '../lib/metrics'
+import {
+  countUserStatuses,
+  listUserStatuses,
+  setUserStatus,
+  effectiveStatus,
+  type UserStatus,
+  type UserStatusRecord
+} from '../lib/user-status'
+import { InviteCodesCard } from '../components/access/InviteCodesCard'
+import { AccessRequestsCard } from '../components/access/AccessRequestsCard'
+import { RolesCard } from '../components/access/RolesCard'
+import { BUILT_IN_ROLES, canGrantRole, listRoles, type RoleDefinition } from '../lib/permissions'
+import { recordAudit } from '../lib/audit'
 import toast from 'react-hot-toast'
 
 interface User {
@@ -36,89 +71,296 @@ interface User {
   displayName?: string
   role?: string
   createdAt: string
-  lastActive?: string
+  lastActive?: string | null
+  // Every image the user has generated, from the metrics rollups
   imageCount?: number
-  status: 'active' | 'inactive' | 'banned'
+  status: UserStatus
+  // The stored record behind a ban or deactivation
+  statusRecord?: UserStatusRecord | null
 }
 
+interface UserCounts {
+  total: number
+  // Users matching the search
+  matching: number
+  admins: number
+  inactive: number
+  banned: number
+}
+
+// Choices for how long a ban or deactivation lasts, in days; 0 is indefinite
+const STATUS_DURATIONS = [
+  { value: '1', label: '1 day' },
+  { value: '7', label: '7 days' },
+  { value: '30', label: '30 days' },
+  { value: '0', label: 'Until lifted' }
+]
+
 export function UserManagement() {
   const [users, setUsers] = useState<User[]>([])
   const [loading, setLoading] = useState(true)
+  // Whether the first page has arrived; later loads keep the table on screen
+  const [loaded, setLoaded] = useState(false)
+  const [hasMore, setHasMore] = useState(false)
+  // Last user of the latest page; it may have left the list since
+  const [cursor, setCursor] = useState<MetricsUser | null>(null)
+  const [counts, setCounts] = useState<UserCounts>({ total: 0, matching: 0, admins: 0, inactive: 0, banned: 0 })
   const [searchQuery, setSearchQuery] = useState('')
+  const [debouncedSearch, setDebouncedSearch] = useState('')
+  const { settings } = useSettings()
+  const { permissions } = usePermissions()
+  const defaultQuota = settings.maxImagesPerUser
+  const [quotaOverrides, setQuotaOverrides] = useState<Record<string, QuotaOverride>>({})
+  const [quotaUser, setQuotaUser] = useState<User | null>(null)
+  // Images the quota user is storing right now, including the trash
+  const [quotaUsed, setQuotaUsed] = useState<number | null>(null)
+  const [quotaDraft, setQuotaDraft] = useState('')
+  const [roles, setRoles] = useState<RoleDefinition[]>(BUILT_IN_ROLES)
+  const [statusTarget, setStatusTarget] = useState<{ user: User; status: Exclude<UserStatus, 'active'> } | null>(null)
+  const [statusReason, setStatusReason] = useState('')
+  const [statusDuration, setStatusDuration] = useState('0')
+  const requestRef = useRef(0)
 
   useEffect(() => {
-    loadUsers()
-  }, [])
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery), 300)
+    return () => clearTimeout(timeout)
+  }, [searchQuery])
+
+  const loadCounts = useCallback(async () => {
+    try {
+      const [total, matching, admins, inactive, banned] = await Promise.all([
+        countUsers(),
+        countUsers(debouncedSearch),
+        countUsers('', 'admin'),
+        countUserStatuses('inactive'),
+        countUserStatuses('banned')
+      ])
+      setCounts({ total, matching, admins, inactive, banned })
+    } catch (error) {
+      console.error('Failed to count users:', error)
+    }
+  }, [debouncedSearch])
 
-  const loadUsers = async () => {
+  // Loads a page of users along with their activity, status and quota
+  // override, which are only fetched for the users on the page
+  const loadUsers = useCallback(async (after: MetricsUser | null) => {
+    const request = ++requestRef.current
+    setLoading(true)
     try {
-      // Load users from database
-      const dbUsers = await blink.db.users.list({ limit: 1000 })
-      
-      // Load image counts for each user
-      const images = await blink.db.generatedImages.list({ limit: 1000 })
-      const imageCounts = images.reduce((acc, img) => {
-        acc[img.userId] = (acc[img.userId] || 0) + 1
-        return acc
-      }, {} as Record<string, number>)
-
-      // Transform users data
-      const transformedUsers: User[] = dbUsers.map(user => ({
+      const page = await listUsersPage(debouncedSearch, after)
+      const userIds = page.map(user => user.id)
+      const [activity, overrides, statusRecords] = await Promise.all([
+        listUserActivity(userIds),
+        listQuotaOverrides(userIds),
+        listUserStatuses(userIds)
+      ])
+      if (request !== requestRef.current) return
+
+      const pageUsers: User[] = page.map(user => ({
         id: user.id,
         email: user.email,
         displayName: user.displayName,
         role: user.role || 'user',
         createdAt: user.createdAt || new Date().toISOString(),
-        imageCount: imageCounts[user.id] || 0,
-        status: 'active' as const
+        lastActive: activity[user.id]?.lastActiveAt,
+        imageCount: Number(activity[user.id]?.images) || 0,
+        status: effectiveStatus(statusRecords[user.id] ?? null),
+        statusRecord: statusRecords[user.id] ?? null
       }))
 
-      setUsers(transformedUsers)
+      setUsers(prev => after ? [...prev, ...pageUsers] : pageUsers)
+      setQuotaOverrides(prev => after ? { ...prev, ...overrides } : overrides)
+      setCursor(page[page.length - 1] ?? after)
+      setHasMore(page.length === USERS_PAGE_SIZE)
     } catch (error) {
       console.error('Failed to load users:', error)
       toast.error('Failed to load users')
     } finally {
-      setLoading(false)
+      if (request === requestRef.current) {
+        setLoading(false)
+        setLoaded(true)
+      }
     }
+  }, [debouncedSearch])
+
+  const loadRoles = useCallback(async () => {
+    try {
+      setRoles(await listRoles())
+    } catch (error) {
+      console.error('Failed to load roles:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadUsers(null)
+    loadCounts()
+  }, [loadUsers, loadCounts])
+
+  useEffect(() => {
+    loadRoles()
+  }, [loadRoles])
+
+  const refresh = () => {
+    loadUsers(null)
+    loadCounts()
+    loadRoles()
   }
 
-  const filteredUsers = users.filter(user =>
-    user.email.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    (user.displayName?.toLowerCase().includes(searchQuery.toLowerCase()))
-  )
+  const roleName = (roleId: string) => roles.find(role => role.id === roleId)?.name ?? 'User'
+  // Deleted custom roles grant nothing, so anyone may move users off them
+  const canGrant = (roleId: string) => {
+    const role = roles.find(r => r.id === roleId)
+    return !role || canGrantRole(permissions, role)
+  }
 
   const handleRoleChange = async (userId: string, newRole: string) => {
     try {
+      const admin = await blink.auth.me()
+      if (admin.id === userId && newRole !== 'admin') {
+        toast.error("You can't remove your own admin role")
+        return
+      }
+      const target = users.find(user => user.id === userId)
+      if (!roles.some(role => role.id === newRole) || !canGrant(newRole) || !canGrant(target?.role || 'user')) {
+        toast.error("You can't change a role that has access you don't")
+        return
+      }
       await blink.db.users.update(userId, { role: newRole })
+      await recordAudit({
+        action: 'user.role',
+        targetType: 'user',
+        targetId: userId,
+        targetLabel: target?.email,
+        before: { role: target?.role || 'user' },
+        after: { role: newRole }
+      })
       setUsers(prev => prev.map(user => 
         user.id === userId ? { ...user, role: newRole } : user
       ))
-      toast.success(`User role updated to ${newRole}`)
+      loadCounts()
+      toast.success(`User role updated to ${roleName(newRole)}`)
     } catch (error) {
+      console.error('Failed to update user role:', error)
       toast.error('Failed to update user role')
     }
   }
 
-  const handleStatusChange = async (userId: string, newStatus: 'active' | 'inactive' | 'banned') => {
+  const handleStatusChange = async (
+    userId: string,
+    newStatus: UserStatus,
+    options: { reason?: string; expiresAt?: string | null } = {}
+  ) => {
     try {
-      // In a real app, you'd update the user status in the database
+      const admin = await blink.auth.me()
+      if (admin.id === userId && newStatus !== 'active') {
+        toast.error("You can't ban or deactivate your own account")
+        return
+      }
+      const target = users.find(user => user.id === userId)
+      if (!canGrant(target?.role || 'user')) {
+        toast.error("You can't change the status of a user who has access you don't")
+        return
+      }
+      const record = await setUserStatus(userId, newStatus, admin.id, options)
+      await recordAudit({
+        action: 'user.status',
+        targetType: 'user',
+        targetId: userId,
+        targetLabel: target?.email,
+        before: {
+          status: target?.status ?? 'active',
+          reason: target?.statusRecord?.reason ?? '',
+          expiresAt: target?.statusRecord?.expiresAt ?? null
+        },
+        after: { status: record.status, reason: record.reason, expiresAt: record.expiresAt }
+      })
       setUsers(prev => prev.map(user => 
-        user.id === userId ? { ...user, status: newStatus } : user
+        user.id === userId ? { ...user, status: newStatus, statusRecord: record } : user
       ))
+      loadCounts()
       toast.success(`User status updated to ${newStatus}`)
     } catch (error) {
+      console.error('Failed to update user status:', error)
       toast.error('Failed to update user status')
     }
   }
 
+  const openStatusDialog = (user: User, status: Exclude<UserStatus, 'active'>) => {
+    setStatusTarget({ user, status })
+    setStatusReason('')
+    setStatusDuration('0')
+  }
+
+  const handleStatusSave = async () => {
+    if (!statusTarget) return
+    const days = parseInt(statusDuration)
+    const expiresAt = days > 0 ? new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString() : null
+    await handleStatusChange(statusTarget.user.id, statusTarget.status, { reason: statusReason, expiresAt })
+    setStatusTarget(null)
+  }
+
+  const openQuotaDialog = (user: User) => {
+    setQuotaUser(user)
+    setQuotaDraft(quotaOverrides[user.id] ? String(quotaOverrides[user.id].maxImages) : '')
+    setQuotaUsed(null)
+    getUserQuota(user.id)
+      .then(quota => setQuotaUsed(quota.used))
+      .catch(error => console.error('Failed to load quota usage:', error))
+  }
+
+  const handleQuotaSave = async () => {
+    if (!quotaUser) return
+    const maxImages = quotaDraft.trim() === '' ? null : parseInt(quotaDraft)
+    if (maxImages !== null && (isNaN(maxImages) || maxImages < 0)) {
+      toast.error('Quota must be a whole number of images')
+      return
+    }
+    if (!canGrant(quotaUser.role || 'user')) {
+      toast.error("You can't change the quota of a user who has access you don't")
+      return
+    }
+
+    try {
+      const admin = await blink.auth.me()
+      const override = await setQuotaOverride(quotaUser.id, maxImages, admin.id)
+      await recordAudit({
+        action: 'user.quota',
+        targetType: 'user',
+        targetId: quotaUser.id,
+        targetLabel: quotaUser.email,
+        before: { maxImages: quotaOverrides[quotaUser.id]?.maxImages ?? null },
+        after: { maxImages }
+      })
+      setQuotaOverrides(prev => {
+        const next = { ...prev }
+        if (override) {
+          next[quotaUser.id] = override
+        } else {
+          delete next[quotaUser.id]
+        }
+        return next
+      })
+      toast.success(override
+        ? `Quota for ${quotaUser.email} set to ${override.maxImages} images`
+        : `${quotaUser.email} now uses the default quota`)
+      setQuotaUser(null)
+    } catch (error) {
+      console.error('Failed to update quota:', error)
+      toast.error('Failed to update quota')
+    }
+  }
+
   const getRoleBadge = (role: string) => {
     switch (role) {
       case 'admin':
         return <Badge variant="destructive">Admin</Badge>
       case 'moderator':
         return <Badge variant="secondary">Moderator</Badge>
-      default:
+      case 'user':
         return <Badge variant="outline">User</Badge>
+      default:
+        // Custom roles, or a role that has since been deleted
+        return <Badge variant="outline">{roleName(role)}</Badge>
     }
   }
 
@@ -135,7 +377,7 @@ export function UserManagement() {
     }
   }
 
-  if (loading) {
+  if (!loaded) {
     return (
       <div className="space-y-6">
         <div className="flex items-center justify-between">
@@ -164,7 +406,7 @@ export function UserManagement() {
             Manage users, roles, and permissions
           </p>
         </div>
-        <Button onClick={loadUsers} variant="outline">
+        <Button onClick={refresh} variant="outline">
           <Users className="h-4 w-4 mr-2" />
           Refresh
         </Button>
@@ -178,7 +420,7 @@ export function UserManagement() {
               <Users className="h-4 w-4 text-muted-foreground" />
               <div>
                 <p className="text-sm font-medium">Total Users</p>
-                <p className="text-2xl font-bold">{users.length}</p>
+                <p className="text-2xl font-bold">{counts.total}</p>
               </div>
             </div>
           </CardContent>
@@ -190,7 +432,7 @@ export function UserManagement() {
               <div>
                 <p className="text-sm font-medium">Active</p>
                 <p className="text-2xl font-bold">
-                  {users.filter(u => u.status === 'active').length}
+                  {counts.total - counts.inactive - counts.banned}
                 </p>
               </div>
             </div>
@@ -203,7 +445,7 @@ export function UserManagement() {
               <div>
                 <p className="text-sm font-medium">Admins</p>
                 <p className="text-2xl font-bold">
-                  {users.filter(u => u.role === 'admin').length}
+                  {counts.admins}
                 </p>
               </div>
             </div>
@@ -216,7 +458,7 @@ export function UserManagement() {
               <div>
                 <p className="text-sm font-medium">Banned</p>
                 <p className="text-2xl font-bold">
-                  {users.filter(u => u.status === 'banned').length}
+                  {counts.banned}
                 </p>
               </div>
             </div>
@@ -242,7 +484,7 @@ export function UserManagement() {
       {/* Users Table */}
       <Card>
         <CardHeader>
-          <CardTitle>Users ({filteredUsers.length})</CardTitle>
+          <CardTitle>Users ({counts.matching})</CardTitle>
         </CardHeader>
         <CardContent>
           <Table>
@@ -252,12 +494,13 @@ export function UserManagement() {
                 <TableHead>Role</TableHead>
                 <TableHead>Status</TableHead>
                 <TableHead>Images</TableHead>
+                <TableHead>Quota</TableHead>
                 <TableHead>Joined</TableHead>
                 <TableHead className="w-[50px]"></TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
-              {filteredUsers.map((user) => (
+              {users.map((user) => (
                 <TableRow key={user.id}>
                   <TableCell>
                     <div className="flex items-center space-x-3">
@@ -276,10 +519,35 @@ export function UserManagement() {
                     {getRoleBadge(user.role || 'user')}
                   </TableCell>
                   <TableCell>
-                    {getStatusBadge(user.status)}
+                    <div className="space-y-1">
+                      {getStatusBadge(user.status)}
+                      {user.status !== 'active' && user.statusRecord && (
+                        <p className="text-xs text-muted-foreground max-w-[180px] truncate" title={user.statusRecord.reason}>
+                          {user.statusRecord.expiresAt
+                            ? `Until ${new Date(user.statusRecord.expiresAt).toLocaleDateString()}`
+                            : 'Indefinite'}
+                          {user.statusRecord.reason && ` · ${user.statusRecord.reason}`}
+                        </p>
+                      )}
+                    </div>
                   </TableCell>
                   <TableCell>
                     <span className="font-medium">{user.imageCount}</span>
+                    {user.lastActive && (
+                      <p className="text-xs text-muted-foreground">
+                        Last {new Date(user.lastActive).toLocaleDateString()}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center space-x-2">
+                      <span className="text-sm">
+                        {quotaOverrides[user.id]?.maxImages ?? defaultQuota}
+                      </span>
+                      {quotaOverrides[user.id] && (
+                        <Badge variant="outline" className="text-xs">Custom</Badge>
+                      )}
+                    </div>
                   </TableCell>
                   <TableCell>
                     <div className="flex items-center space-x-1 text-sm text-muted-foreground">
@@ -295,16 +563,34 @@ export function UserManagement() {
                         </Button>
                       </DropdownMenuTrigger>
                       <DropdownMenuContent align="end">
-                        <DropdownMenuItem onClick={() => handleRoleChange(user.id, 'admin')}>
-                          Make Admin
-                        </DropdownMenuItem>
-                        <DropdownMenuItem onClick={() => handleRoleChange(user.id, 'user')}>
-                          Make User
+                        <DropdownMenuSub>
+                          <DropdownMenuSubTrigger disabled={!canGrant(user.role || 'user')}>
+                            Change Role
+                          </DropdownMenuSubTrigger>
+                          <DropdownMenuSubContent>
+                            <DropdownMenuRadioGroup
+                              value={user.role || 'user'}
+                              onValueChange={(role) => handleRoleChange(user.id, role)}
+                            >
+                              {roles.map(role => (
+                                <DropdownMenuRadioItem key={role.id} value={role.id} disabled={!canGrantRole(permissions, role)}>
+                                  {role.name}
+                                </DropdownMenuRadioItem>
+                              ))}
+                            </DropdownMenuRadioGroup>
+                          </DropdownMenuSubContent>
+                        </DropdownMenuSub>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem disabled={!canGrant(user.role || 'user')} onClick={() => openQuotaDialog(user)}>
+                          Set Image Quota
                         </DropdownMenuItem>
-                        <DropdownMenuItem onClick={() => handleStatusChange(user.id, 'banned')}>
+                        <DropdownMenuItem disabled={!canGrant(user.role || 'user')} onClick={() => openStatusDialog(user, 'banned')}>
                           Ban User
                         </DropdownMenuItem>
-                        <DropdownMenuItem onClick={() => handleStatusChange(user.id, 'active')}>
+                        <DropdownMenuItem disabled={!canGrant(user.role || 'user')} onClick={() => openStatusDialog(user, 'inactive')}>
+                          Deactivate User
+                        </DropdownMenuItem>
+                        <DropdownMenuItem disabled={!canGrant(user.role || 'user')} onClick={() => handleStatusChange(user.id, 'active')}>
                           Activate User
                         </DropdownMenuItem>
                       </DropdownMenuContent>
@@ -315,17 +601,120 @@ export function UserManagement() {
             </TableBody>
           </Table>
           
-          {filteredUsers.length === 0 && (
+          {users.length === 0 && !loading && (
             <div className="text-center py-8">
               <Users className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
               <h3 className="text-lg font-semibold mb-2">No users found</h3>
               <p className="text-muted-foreground">
-                {searchQuery ? 'Try adjusting your search query' : 'No users have registered yet'}
+                {debouncedSearch ? 'Try adjusting your search query' : 'No users have registered yet'}
               </p>
             </div>
           )}
+
+          {loading && (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          )}
+          {hasMore && !loading && (
+            <div className="flex justify-center pt-4">
+              <Button variant="outline" onClick={() => loadUsers(cursor)}>
+                Load more
+              </Button>
+            </div>
+          )}
         </CardContent>
       </Card>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <AccessRequestsCard onApproved={refresh} />
+        <InviteCodesCard />
+      </div>
+
+      <RolesCard roles={roles} onChange={refresh} />
+
+      <Dialog open={!!quotaUser} onOpenChange={(open) => !open && setQuotaUser(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Image quota</DialogTitle>
+            <DialogDescription>
+              Override the site-wide limit of {defaultQuota} images for {quotaUser?.email}.
+              Leave empty to use the default.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="quota">Max images</Label>
+            <Input
+              id="quota"
+              type="number"
+              min={0}
+              value={quotaDraft}
+              onChange={(e) => setQuotaDraft(e.target.value)}
+              placeholder={String(defaultQuota)}
+            />
+            {quotaUsed !== null && (
+              <p className="text-xs text-muted-foreground">
+                Currently storing {quotaUsed} images, including the trash
+              </p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setQuotaUser(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleQuotaSave}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!statusTarget} onOpenChange={(open) => !open && setStatusTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {statusTarget?.status === 'banned' ? 'Ban' : 'Deactivate'} {statusTarget?.user.email}
+            </DialogTitle>
+            <DialogDescription>
+              They will see a notice instead of the app and won't be able to generate images.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="statusReason">Reason</Label>
+              <Textarea
+                id="statusReason"
+                value={statusReason}
+                onChange={(e) => setStatusReason(e.target.value)}
+                placeholder="Shown to the user"
+                maxLength={500}
+                rows={3}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Duration</Label>
+              <Select value={statusDuration} onValueChange={setStatusDuration}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STATUS_DURATIONS.map(duration => (
+                    <SelectItem key={duration.value} value={duration.value}>{duration.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setStatusTarget(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleStatusSave}>
+              {statusTarget?.status === 'banned' ? 'Ban user' : 'Deactivate user'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
\ No newline at end of file
@@ -1 +1,3 @@
 /// <reference types="vite/client" />
+
+declare const __BLINK_SDK_VERSION__: string
@@ -1,9 +1,17 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import path from 'path';
+import { readFileSync } from 'fs';
+
+const blinkSdkPackage = JSON.parse(
+  readFileSync(path.resolve(__dirname, './node_modules/@blinkdotnew/sdk/package.json'), 'utf-8')
+);
 
 export default defineConfig({
   plugins: [react()],
+  define: {
+    __BLINK_SDK_VERSION__: JSON.stringify(blinkSdkPackage.version),
+  },
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),